@@ -1,10 +1,13 @@
 import * as fs from "fs";
 import * as path from "path";
+import { httpRequest, readJson } from "./http.js";
 
 export interface AirtableConfig {
   apiKey: string;
   baseId: string;
   tableName: string;
+  apiBaseUrl: string;
+  contentBaseUrl: string;
 }
 
 export interface AirtableRecord {
@@ -21,6 +24,8 @@ export function getAirtableConfig(): AirtableConfig | null {
     apiKey,
     baseId: process.env.AIRTABLE_BASE_ID || "",
     tableName: process.env.AIRTABLE_TABLE_NAME || "Assets",
+    apiBaseUrl: (process.env.AIRTABLE_API_BASE_URL || "https://api.airtable.com").replace(/\/+$/, ""),
+    contentBaseUrl: (process.env.AIRTABLE_CONTENT_BASE_URL || "https://content.airtable.com").replace(/\/+$/, ""),
   };
 }
 
@@ -29,7 +34,7 @@ export async function airtableRequest(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<any> {
-  const url = `https://api.airtable.com/v0/${config.baseId}/${encodeURIComponent(config.tableName)}${endpoint}`;
+  const url = `${config.apiBaseUrl}/v0/${config.baseId}/${encodeURIComponent(config.tableName)}${endpoint}`;
 
   const headers: Record<string, string> = {
     Authorization: `Bearer ${config.apiKey}`,
@@ -37,7 +42,7 @@ export async function airtableRequest(
     ...(options.headers as Record<string, string> || {}),
   };
 
-  const response = await fetch(url, {
+  const response = await httpRequest(url, {
     ...options,
     headers,
   });
@@ -47,7 +52,7 @@ export async function airtableRequest(
     throw new Error(`Airtable API error (${response.status}): ${errorBody}`);
   }
 
-  return response.json();
+  return readJson(response);
 }
 
 export async function createAirtableRecord(
@@ -155,9 +160,9 @@ export async function uploadAttachmentToAirtable(
 
     // Airtable content upload API: base64-encoded file in JSON body
     // URL format: content.airtable.com/v0/{baseId}/{recordId}/{fieldIdOrName}/uploadAttachment
-    const url = `https://content.airtable.com/v0/${config.baseId}/${recordId}/File/uploadAttachment`;
+    const url = `${config.contentBaseUrl}/v0/${config.baseId}/${recordId}/File/uploadAttachment`;
 
-    const response = await fetch(url, {
+    const response = await httpRequest(url, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${config.apiKey}`,
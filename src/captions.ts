@@ -0,0 +1,97 @@
+// Word-level timings in the shape of Remotion's Caption type (@remotion/captions), so they can be
+// passed straight to createTikTokStyleCaptions. As there, every word after the first starts with
+// the space that precedes it.
+export interface Caption {
+  text: string;
+  startMs: number;
+  endMs: number;
+  timestampMs: number | null;
+  confidence: number | null;
+}
+
+// Character timings as ElevenLabs returns them with speech
+export interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+// A piece of speech's alignment and where the piece starts in the final audio
+export interface AlignedPiece {
+  alignment: CharacterAlignment;
+  offsetMs: number;
+}
+
+// <name>.words.json, written next to speech generated with timestamps
+export interface SpeechTimings {
+  audio: string;
+  // "provider" for the TTS provider's own alignment, otherwise the Whisper flavour that aligned it
+  source: string;
+  words: Caption[];
+  characters?: { char: string; startMs: number; endMs: number }[];
+}
+
+export function isCharacterAlignment(value: any): value is CharacterAlignment {
+  return (
+    Array.isArray(value?.characters) &&
+    Array.isArray(value?.character_start_times_seconds) &&
+    Array.isArray(value?.character_end_times_seconds)
+  );
+}
+
+// Give words the spacing Remotion expects, whatever the source put there: no space before the
+// first word and exactly one before every other (Whisper starts every word with one)
+export function normalizeCaptionSpacing(captions: Caption[]): Caption[] {
+  return captions.map((caption, i) => {
+    const text = caption.text.trim();
+    return { ...caption, text: i > 0 ? ` ${text}` : text };
+  });
+}
+
+// Group character timings into words, splitting on whitespace
+export function captionsFromAlignment(pieces: AlignedPiece[]): Caption[] {
+  const captions: Caption[] = [];
+  let word: { text: string; startMs: number; endMs: number } | null = null;
+
+  const flush = () => {
+    if (!word) return;
+    captions.push({
+      text: word.text,
+      startMs: word.startMs,
+      endMs: word.endMs,
+      timestampMs: null,
+      confidence: null,
+    });
+    word = null;
+  };
+
+  for (const { alignment, offsetMs } of pieces) {
+    alignment.characters.forEach((char, i) => {
+      if (/^\s*$/.test(char)) {
+        flush();
+        return;
+      }
+      const startMs = Math.round(offsetMs + alignment.character_start_times_seconds[i] * 1000);
+      const endMs = Math.round(offsetMs + alignment.character_end_times_seconds[i] * 1000);
+      if (word) {
+        word.text += char;
+        word.endMs = endMs;
+      } else {
+        word = { text: char, startMs, endMs };
+      }
+    });
+    flush();
+  }
+
+  return normalizeCaptionSpacing(captions);
+}
+
+export function charactersFromAlignment(pieces: AlignedPiece[]): { char: string; startMs: number; endMs: number }[] {
+  return pieces.flatMap(({ alignment, offsetMs }) =>
+    alignment.characters.map((char, i) => ({
+      char,
+      startMs: Math.round(offsetMs + alignment.character_start_times_seconds[i] * 1000),
+      endMs: Math.round(offsetMs + alignment.character_end_times_seconds[i] * 1000),
+    }))
+  );
+}
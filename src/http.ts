@@ -0,0 +1,259 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream } from "stream/web";
+
+// Shared HTTP client for kie.ai, Airtable and file downloads: per-request timeouts
+// plus exponential backoff on 429/5xx responses and network errors (narrower for POSTs),
+// and streamed downloads to partial files.
+
+export interface HttpRequestOptions extends RequestInit {
+  // Abort the request (including reading the body) after this long
+  timeoutMs?: number;
+  // Retries after the first attempt; 0 disables retrying
+  retries?: number;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+// A POST the server may already have acted on (it timed out or answered 5xx) is not sent again,
+// since it can create a task or record. These mean it never got that far.
+const UNSENT_ERROR_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"]);
+const MAX_RETRY_DELAY_MS = 60000;
+
+export function getHttpTimeoutMs(): number {
+  return Number(process.env.HTTP_TIMEOUT_MS) || 60000;
+}
+
+function getMaxRetries(): number {
+  const value = Number(process.env.HTTP_MAX_RETRIES);
+  return Number.isInteger(value) && value >= 0 ? value : 3;
+}
+
+function getRetryBaseMs(): number {
+  return Number(process.env.HTTP_RETRY_BASE_MS) || 1000;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+  const base = getRetryBaseMs() * 2 ** attempt;
+  return Math.min(base + Math.random() * base * 0.25, MAX_RETRY_DELAY_MS);
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function describeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+// fetch() with a timeout and retries. Resolves with the final response whatever its
+// status, so callers still decide what a non-2xx means; throws on timeout, cancellation
+// or a network error that persisted through every retry. POSTs are only retried on 429
+// and on connection errors that mean the request never reached the server.
+export async function httpRequest(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+  const { timeoutMs = getHttpTimeoutMs(), retries = getMaxRetries(), signal, ...init } = options;
+  const method = init.method || "GET";
+  const label = `${method} ${describeUrl(url)}`;
+  const idempotent = method.toUpperCase() !== "POST";
+
+  for (let attempt = 0; ; attempt++) {
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const requestSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+
+    let retryDelay: number;
+    let reason: string;
+
+    try {
+      const response = await fetch(url, { ...init, signal: requestSignal });
+
+      const retryable = idempotent ? RETRYABLE_STATUSES.has(response.status) : response.status === 429;
+      if (!retryable || attempt >= retries) {
+        return response;
+      }
+
+      reason = `HTTP ${response.status}`;
+      retryDelay = Math.min(
+        parseRetryAfter(response.headers.get("retry-after")) ?? backoffDelay(attempt),
+        MAX_RETRY_DELAY_MS
+      );
+      await response.body?.cancel().catch(() => {});
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new Error(`${label} cancelled`);
+      }
+
+      const timedOut = timeoutSignal.aborted;
+      const message = timedOut
+        ? `${label} timed out after ${timeoutMs}ms`
+        : `${label} failed: ${error instanceof Error ? (error.cause as Error)?.message || error.message : error}`;
+
+      const unsent = UNSENT_ERROR_CODES.has(((error as Error)?.cause as any)?.code);
+      if (attempt >= retries || (!idempotent && (timedOut || !unsent))) {
+        throw new Error(message);
+      }
+
+      reason = timedOut ? "timeout" : "network error";
+      retryDelay = backoffDelay(attempt);
+    }
+
+    console.error(
+      `[remotion-media-mcp] ${label} ${reason}, retrying in ${Math.round(retryDelay)}ms (retry ${attempt + 1}/${retries})`
+    );
+    await wait(retryDelay, signal);
+    if (signal?.aborted) {
+      throw new Error(`${label} cancelled`);
+    }
+  }
+}
+
+// Parse a JSON response body, reporting the status and a snippet of the body when it isn't JSON
+export async function readJson(response: Response): Promise<any> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    const snippet = text.replace(/\s+/g, " ").trim().slice(0, 200);
+    throw new Error(`Expected JSON from ${describeUrl(response.url)} but got HTTP ${response.status}: ${snippet}`);
+  }
+}
+
+export interface DownloadResult {
+  bytes: number;
+  // Full size of the file as reported by the server (Content-Length or Content-Range)
+  contentLength?: number;
+  contentType?: string;
+}
+
+export interface DownloadOptions {
+  timeoutMs?: number;
+  // Keep a stable partial file and continue it with an HTTP Range request after an interruption
+  resume?: boolean;
+}
+
+// Downloads in progress in this process, keyed by output path
+const activeDownloads = new Map<string, Promise<DownloadResult>>();
+
+// Hidden partial file next to the target, so it never shows up as a finished asset.
+// Resumable downloads use a fixed name that a later attempt can pick up.
+export function partialPathFor(outputPath: string, resume = false): string {
+  const suffix = resume ? "" : `.${randomUUID().slice(0, 8)}`;
+  return path.join(path.dirname(outputPath), `.${path.basename(outputPath)}${suffix}.part`);
+}
+
+// Content-Range: bytes 100-999/1000
+function parseContentRangeTotal(header: string | null): number | undefined {
+  const total = header?.match(/\/(\d+)$/)?.[1];
+  return total ? Number(total) : undefined;
+}
+
+async function streamToFile(url: string, filePath: string, options: DownloadOptions): Promise<DownloadResult> {
+  const offset = options.resume && fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+
+  const response = await httpRequest(url, {
+    timeoutMs: options.timeoutMs,
+    ...(offset > 0 && { headers: { Range: `bytes=${offset}-` } }),
+  });
+
+  // The partial file already holds the whole thing
+  if (offset > 0 && response.status === 416) {
+    await response.body?.cancel().catch(() => {});
+    return { bytes: offset, contentLength: parseContentRangeTotal(response.headers.get("content-range")) };
+  }
+
+  // Append only if the server honored the range; a 200 resends the whole file
+  const append = offset > 0 && response.status === 206;
+
+  if (!response.ok || !response.body) {
+    await response.body?.cancel().catch(() => {});
+    throw new Error(`Download failed (HTTP ${response.status}) for ${url}`);
+  }
+
+  const length = response.headers.get("content-length");
+  // fetch decompresses encoded bodies, so Content-Length only matches for identity encoding
+  const contentLength = append
+    ? parseContentRangeTotal(response.headers.get("content-range"))
+    : length && !response.headers.get("content-encoding")
+      ? Number(length)
+      : undefined;
+
+  await pipeline(
+    Readable.fromWeb(response.body as ReadableStream),
+    fs.createWriteStream(filePath, { flags: append ? "a" : "w" })
+  );
+
+  const bytes = fs.statSync(filePath).size;
+  if (contentLength !== undefined && bytes < contentLength) {
+    throw new Error(`Download truncated: received ${bytes} of ${contentLength} bytes from ${describeUrl(url)}`);
+  }
+
+  return {
+    bytes,
+    ...(contentLength !== undefined && { contentLength }),
+    ...(response.headers.get("content-type") && { contentType: response.headers.get("content-type")! }),
+  };
+}
+
+// Stream a URL into filePath without buffering it in memory. Resumable downloads retry
+// interrupted transfers from where they stopped; otherwise the partial file is removed on failure.
+export function downloadToFile(
+  url: string,
+  filePath: string,
+  options: DownloadOptions = {}
+): Promise<DownloadResult> {
+  const active = activeDownloads.get(filePath);
+  if (active) return active;
+
+  const run = (async () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const retries = options.resume ? getMaxRetries() : 0;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await streamToFile(url, filePath, options);
+      } catch (error) {
+        if (attempt >= retries) {
+          if (!options.resume) fs.rmSync(filePath, { force: true });
+          throw error;
+        }
+        const delay = backoffDelay(attempt);
+        console.error(
+          `[remotion-media-mcp] Download of ${describeUrl(url)} interrupted (${error instanceof Error ? error.message : error}), resuming in ${Math.round(delay)}ms`
+        );
+        await wait(delay);
+      }
+    }
+  })();
+
+  activeDownloads.set(filePath, run);
+  return run.finally(() => activeDownloads.delete(filePath));
+}
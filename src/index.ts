@@ -2,11 +2,15 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import * as fs from "fs";
 import * as path from "path";
-import { execSync, exec } from "child_process";
+import * as os from "os";
+import { exec } from "child_process";
 import { promisify } from "util";
+import { randomUUID } from "crypto";
 import {
   getAirtableConfig,
   createAirtableRecord,
@@ -17,76 +21,149 @@ import {
   getMimeType,
   type AirtableConfig,
 } from "./airtable.js";
+import { buildJob, saveJob, getJob, listJobs, type JobRecord } from "./jobs.js";
+import {
+  getProvider,
+  getMediaType,
+  getPollIntervalMs,
+  pollInterrupted,
+  loadProviderModules,
+  type GenerationOperation,
+  type MediaProvider,
+  type ResultOutput,
+  type PollContext,
+} from "./providers.js";
+import { downloadToFile, partialPathFor } from "./http.js";
+import { validateMediaFile, createPreview, probeMedia, concatAudio, type MediaValidation } from "./media.js";
+import {
+  splitScript,
+  timeChunks,
+  type NarrationManifest,
+  type DialogueManifest,
+  type DialogueLineTiming,
+} from "./narration.js";
+import {
+  CONFLICT_MODES,
+  DEFAULT_CONFLICT_MODE,
+  conflictError,
+  resolveOutputPath,
+  releaseOutputPath,
+  type ConflictMode,
+} from "./output-paths.js";
+import {
+  readSidecar,
+  writeSidecar,
+  hashFile,
+  getSidecarPath,
+  findAssets,
+  findAssetByAid,
+  type AssetMetadata,
+  type AssetParent,
+} from "./sidecar.js";
+import { registerMediaResources } from "./resources.js";
+import { parseSubtitles, formatSrt, formatVtt } from "./subtitles.js";
+import { getTranslator } from "./translators.js";
+import {
+  getWhisperCommand,
+  ensureWhisperModel,
+  whisperModelUrl,
+  transcribeWords,
+  parseOpenAiWhisperJson,
+} from "./whisper.js";
+import {
+  captionsFromAlignment,
+  charactersFromAlignment,
+  type AlignedPiece,
+  type Caption,
+  type CharacterAlignment,
+  type SpeechTimings,
+} from "./captions.js";
+import {
+  PRESET_VOICE_NAMES,
+  VOICE_ID_PATTERN,
+  DEFAULT_VOICE,
+  findPresetVoice,
+  listVoices,
+} from "./voices.js";
 
 const execAsync = promisify(exec);
 
-const API_BASE = "https://api.kie.ai";
-
-// Get API key from environment
-function getApiKey(): string {
-  const key = process.env.KIE_API_KEY;
-  if (!key) {
-    throw new Error("KIE_API_KEY environment variable is required");
-  }
-  return key;
+// Build a poll context that reports MCP progress for the current request and stops when it is cancelled
+function pollContextFromRequest(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  label: string
+): PollContext {
+  const progressToken = extra._meta?.progressToken;
+
+  return {
+    signal: extra.signal,
+    onProgress:
+      progressToken === undefined
+        ? undefined
+        : async ({ attempt, maxAttempts, state, elapsedMs }) => {
+            try {
+              await extra.sendNotification({
+                method: "notifications/progress",
+                params: {
+                  progressToken,
+                  progress: attempt,
+                  total: maxAttempts,
+                  message: `${label}: ${state || "processing"} (${Math.round(elapsedMs / 1000)}s elapsed, check ${attempt}/${maxAttempts})`,
+                },
+              });
+            } catch {}
+          },
+  };
 }
 
-// Poll for task completion
-async function pollTaskStatus(
-  taskId: string,
-  apiKey: string,
-  maxAttempts = 120,
-  intervalMs = 5000
-): Promise<{ success: boolean; data?: any; error?: string }> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const response = await fetch(
-      `${API_BASE}/api/v1/jobs/recordInfo?taskId=${taskId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-        },
-      }
-    );
-
-    const result = await response.json();
-
-    if (result.code !== 200) {
-      return { success: false, error: `API error: ${result.msg}` };
-    }
-
-    const state = result.data?.state;
-
-    if (state === "success") {
-      return { success: true, data: result.data };
-    }
+// Generated files can be large, so downloads get a longer timeout than API calls
+const DOWNLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Download file to local path. The file is streamed to a hidden partial file in the same
+// directory and only renamed into place once complete, so Remotion never sees half a file.
+// With validate set, a file that fails validateMediaFile is discarded instead.
+async function downloadFile(
+  url: string,
+  outputPath: string,
+  options: { validate?: boolean } = {}
+): Promise<{ validation?: MediaValidation }> {
+  const partialPath = partialPathFor(outputPath);
+  try {
+    const download = await downloadToFile(url, partialPath, { timeoutMs: DOWNLOAD_TIMEOUT_MS });
 
-    if (state === "fail") {
-      return {
-        success: false,
-        error: result.data?.failMsg || "Task failed",
-      };
+    let validation: MediaValidation | undefined;
+    if (options.validate) {
+      validation = await validateMediaFile(partialPath, download, path.basename(outputPath));
+      if (!validation.valid) return { validation };
     }
 
-    // Still waiting, continue polling
-    console.error(`[remotion-media-mcp] Task ${taskId} status: ${state}, waiting...`);
-    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    fs.renameSync(partialPath, outputPath);
+    return { validation };
+  } finally {
+    fs.rmSync(partialPath, { force: true });
   }
-
-  return { success: false, error: "Task timed out" };
 }
 
-// Download file to local path
-async function downloadFile(url: string, outputPath: string): Promise<void> {
-  const response = await fetch(url);
-  const buffer = await response.arrayBuffer();
+// Directories searched for a bare filename, after trying the path as given
+const LOCAL_SEARCH_DIRS = ["public", "out"];
 
-  // Ensure directory exists
-  const dir = path.dirname(outputPath);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
+// Resolve a user-supplied path (absolute, relative to the project, or a filename in public/ or out/)
+function findLocalFile(filePath: string): string | null {
+  if (path.isAbsolute(filePath)) {
+    return fs.existsSync(filePath) ? filePath : null;
   }
 
-  fs.writeFileSync(outputPath, Buffer.from(buffer));
+  // Try the path as-is first (relative to cwd)
+  const cwd = process.cwd();
+  const directPath = path.resolve(cwd, filePath);
+  if (fs.existsSync(directPath)) return directPath;
+
+  // Search in common directories
+  for (const dir of LOCAL_SEARCH_DIRS) {
+    const candidate = path.resolve(cwd, dir, path.basename(filePath));
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return null;
 }
 
 // Post-generation hook: optionally save to Airtable and copy to assets/
@@ -148,462 +225,2533 @@ async function postGenerationHook(params: {
   }
 }
 
-// Check for Whisper installation and return the command name
-function getWhisperCommand(): { cmd: string; type: "whisper-cpp" | "openai-whisper" } | null {
-  // Check for whisper.cpp (Homebrew) - binary is called whisper-cli
-  try {
-    execSync("which whisper-cli", { stdio: "ignore" });
-    return { cmd: "whisper-cli", type: "whisper-cpp" };
-  } catch {}
+// Files generate_subtitles can write; each is saved as <name>.<format>
+const SUBTITLE_FORMATS = ["srt", "vtt", "json", "txt"] as const;
+type SubtitleFormat = (typeof SUBTITLE_FORMATS)[number];
+
+// Language codes for translate_subtitles, which go into filenames: "es", "pt-BR", "zh-Hant"
+const LANGUAGE_CODE = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+// Cues sent to the translator per request, so long files stay within model context limits
+const TRANSLATION_BATCH_SIZE = 50;
 
-  // Check in Homebrew opt path
+// Provider operation and output details for each generation tool
+const GENERATION_TOOLS: Record<
+  string,
+  {
+    operation: GenerationOperation;
+    extension: string;
+    fileType: "image" | "video" | "audio";
+    label: string;
+  }
+> = {
+  generate_image: { operation: "image", extension: "png", fileType: "image", label: "image" },
+  generate_video_from_text: { operation: "video_from_text", extension: "mp4", fileType: "video", label: "video" },
+  generate_video_from_image: { operation: "video_from_image", extension: "mp4", fileType: "video", label: "video" },
+  generate_sound_effect: { operation: "sound_effect", extension: "mp3", fileType: "audio", label: "sound effect" },
+  generate_music: { operation: "music", extension: "mp3", fileType: "audio", label: "music" },
+  extend_music: { operation: "music_extend", extension: "mp3", fileType: "audio", label: "music" },
+  cover_music: { operation: "music_cover", extension: "mp3", fileType: "audio", label: "music" },
+  separate_stems: { operation: "stem_separation", extension: "mp3", fileType: "audio", label: "stems" },
+  generate_speech: { operation: "speech", extension: "mp3", fileType: "audio", label: "speech" },
+};
+
+type JobOutcome = {
+  success: boolean;
+  result?: Record<string, any>;
+  error?: string;
+  // Extra fields for a structured error response (e.g. media validation results)
+  details?: Record<string, any>;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  interrupted?: boolean;
+};
+
+// Jobs being polled by this process, so a job is never downloaded twice at once
+const activeJobs = new Map<string, Promise<JobOutcome>>();
+
+// Download one file a task produced to public/<baseName>.<ext>, register it with the
+// post-generation hook and write its sidecar
+async function saveJobOutput(
+  job: JobRecord,
+  output: ResultOutput,
+  baseName: string,
+  taskMetadata?: Record<string, any>
+): Promise<JobOutcome> {
+  const toolInfo = GENERATION_TOOLS[job.tool];
+  const remoteUrl = output.url;
+  const metadata = { ...taskMetadata, ...output.metadata };
+
+  // Download result, without clobbering an existing file unless on_conflict says so
+  const publicDir = path.resolve(process.cwd(), "public");
+  const resolved = resolveOutputPath(publicDir, baseName, toolInfo.extension, job.onConflict);
+  if (!resolved.path) {
+    return { success: false, error: resolved.error };
+  }
+  const outputPath = resolved.path;
+  const filename = path.basename(outputPath);
+  const requestedFilename = `${baseName}.${toolInfo.extension}`;
+  const label = toolInfo.label;
+
+  console.error(`[remotion-media-mcp] Downloading ${label} to ${outputPath}...`);
+  // Never report an error page or truncated file as a generated asset
+  let validation: MediaValidation | undefined;
   try {
-    const brewPath = "/opt/homebrew/opt/whisper-cpp/bin/whisper-cli";
-    if (fs.existsSync(brewPath)) {
-      return { cmd: brewPath, type: "whisper-cpp" };
+    ({ validation } = await downloadFile(remoteUrl, outputPath, { validate: true }));
+  } finally {
+    releaseOutputPath(outputPath);
+  }
+  if (validation && !validation.valid) {
+    console.error(`[remotion-media-mcp] Downloaded ${label} failed validation: ${validation.error}`);
+    return {
+      success: false,
+      error: `Downloaded ${label} failed validation: ${validation.error}`,
+      details: { taskId: job.taskId, [`${toolInfo.fileType}Url`]: remoteUrl, validation: validation.details },
+    };
+  }
+  console.error(`[remotion-media-mcp] ${label[0].toUpperCase()}${label.slice(1)} saved successfully!`);
+
+  // Cover art that comes with a track (Suno's imageUrl) is saved next to it
+  const coverPath =
+    toolInfo.fileType === "audio" && metadata.imageUrl
+      ? await downloadCoverImage(metadata.imageUrl, path.basename(outputPath, path.extname(outputPath)), job.onConflict)
+      : undefined;
+
+  const timings =
+    job.tool === "generate_speech" && job.params?.timestamps
+      ? await writeSpeechTimings(outputPath, output.alignment ? [{ alignment: output.alignment, offsetMs: 0 }] : undefined)
+      : undefined;
+
+  // Airtable post-generation hook
+  const postResult = await postGenerationHook({
+    remoteUrl,
+    localPath: outputPath,
+    filename,
+    description: job.description,
+    fileType: toolInfo.fileType,
+    sourceTool: job.tool,
+    taskId: job.taskId,
+  });
+
+  const extras = {
+    ...metadata,
+    ...job.extras,
+    ...(coverPath && { coverPath: path.relative(process.cwd(), coverPath) }),
+    ...timings,
+  };
+  const metadataPath = await writeSidecar(outputPath, {
+    tool: job.tool,
+    params: job.params || {},
+    provider: job.provider,
+    model: job.model,
+    jobId: job.id,
+    taskId: job.taskId,
+    remoteUrl,
+    requestedAt: job.createdAt,
+    ...(postResult?.aid && { aid: postResult.aid }),
+    ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
+    ...(Object.keys(extras).length > 0 && { extras }),
+    ...(job.parent && { parent: job.parent }),
+  });
+  notifyResourcesChanged();
+
+  return {
+    success: true,
+    result: {
+      success: true,
+      path: outputPath,
+      relativePath: `public/${filename}`,
+      ...(filename !== requestedFilename && { requestedPath: `public/${requestedFilename}` }),
+      taskId: job.taskId,
+      [`${toolInfo.fileType}Url`]: remoteUrl,
+      ...extras,
+      ...(postResult?.aid && { aid: postResult.aid }),
+      ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
+      ...(postResult?.assetsPath && { assetsPath: postResult.assetsPath }),
+      metadataPath: path.relative(process.cwd(), metadataPath),
+      ...(job.parent && { parent: job.parent }),
+    },
+  };
+}
+
+// Write <name>.words.json next to speech: word timings from the provider's character alignment
+// (pieces offset into the final audio), or from local Whisper when there is none.
+// Failures are reported as timingsWarning, not fatal: the audio itself is fine.
+async function writeSpeechTimings(
+  audioPath: string,
+  pieces?: AlignedPiece[]
+): Promise<{ timingsPath?: string; timingsSource?: string; timingsWarning?: string }> {
+  const audio = path.basename(audioPath);
+  let timings: SpeechTimings;
+
+  if (pieces?.length) {
+    timings = { audio, source: "provider", words: captionsFromAlignment(pieces), characters: charactersFromAlignment(pieces) };
+  } else {
+    const whisper = getWhisperCommand();
+    if (!whisper) {
+      return { timingsWarning: "The provider returned no timestamps and Whisper isn't installed for local alignment" };
     }
-  } catch {}
+    try {
+      console.error(`[remotion-media-mcp] Aligning ${audio} with ${whisper.type}...`);
+      timings = { audio, source: whisper.type, words: await transcribeWords(whisper, audioPath) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[remotion-media-mcp] Speech alignment error (non-fatal): ${message}`);
+      return { timingsWarning: `Local Whisper alignment failed: ${message}` };
+    }
+  }
+
+  const timingsPath = path.join(path.dirname(audioPath), `${path.basename(audioPath, path.extname(audioPath))}.words.json`);
+  fs.writeFileSync(timingsPath, JSON.stringify(timings, null, 2));
+  return { timingsPath: path.relative(process.cwd(), timingsPath), timingsSource: timings.source };
+}
 
-  // Check for OpenAI whisper (Python)
+// Save a track's cover image as public/<trackName>-cover.<ext>. Failures are logged, not fatal.
+async function downloadCoverImage(
+  imageUrl: string,
+  trackName: string,
+  onConflict?: ConflictMode
+): Promise<string | undefined> {
+  let extension = "jpg";
   try {
-    execSync("which whisper", { stdio: "ignore" });
-    return { cmd: "whisper", type: "openai-whisper" };
+    extension = path.extname(new URL(imageUrl).pathname).slice(1).toLowerCase() || extension;
   } catch {}
 
-  return null;
-}
+  const resolved = resolveOutputPath(path.resolve(process.cwd(), "public"), `${trackName}-cover`, extension, onConflict);
+  if (!resolved.path) {
+    console.error(`[remotion-media-mcp] Skipping cover image: ${resolved.error}`);
+    return undefined;
+  }
 
-// Poll for Veo video task completion
-async function pollVeoTaskStatus(
-  taskId: string,
-  apiKey: string,
-  maxAttempts = 180,
-  intervalMs = 5000
-): Promise<{ success: boolean; videoUrl?: string; error?: string }> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const response = await fetch(
-      `${API_BASE}/api/v1/veo/record-info?taskId=${taskId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-        },
-      }
+  try {
+    const { validation } = await downloadFile(imageUrl, resolved.path, { validate: true });
+    if (validation && !validation.valid) {
+      console.error(`[remotion-media-mcp] Cover image failed validation: ${validation.error}`);
+      return undefined;
+    }
+    return resolved.path;
+  } catch (error) {
+    console.error(
+      `[remotion-media-mcp] Cover image download error (non-fatal):`,
+      error instanceof Error ? error.message : error
     );
+    return undefined;
+  } finally {
+    releaseOutputPath(resolved.path);
+  }
+}
 
-    const result = await response.json();
+// Named outputs (stems) use their suffix; otherwise the first file keeps the plain name
+function outputBaseName(outputName: string, suffix: string | undefined, index: number): string {
+  return suffix ? `${outputName}-${suffix}` : index === 0 ? outputName : `${outputName}-${index + 1}`;
+}
 
-    if (result.code !== 200) {
-      // Check if still processing
-      if (result.code === 400 && result.msg?.includes("processing")) {
-        console.error(`[remotion-media-mcp] Video ${taskId} still processing...`);
-        await new Promise((resolve) => setTimeout(resolve, intervalMs));
-        continue;
-      }
-      return { success: false, error: `API error: ${result.msg}` };
+// The stems Suno returns for each separation type, named as extractResultUrls names them
+const STEM_SUFFIXES: Record<string, string[]> = {
+  vocals: ["vocals", "instrumental"],
+  stems: ["vocals", "backing-vocals", "drums", "bass", "guitar", "keyboard", "percussion", "strings", "synth", "fx", "brass", "woodwinds"],
+};
+
+// Base names of the files a job is expected to write, so existing files can be checked before
+// the task is paid for. Suno returns two tracks; stems are named after the stem.
+function expectedOutputNames(tool: string, outputName: string, args: Record<string, any>): string[] {
+  const { operation } = GENERATION_TOOLS[tool];
+  if (operation === "stem_separation") {
+    return STEM_SUFFIXES[args.type || "vocals"].map((stem, i) => outputBaseName(outputName, stem, i));
+  }
+  if (operation === "music" || operation === "music_extend" || operation === "music_cover") {
+    return [0, 1].map((i) => outputBaseName(outputName, undefined, i));
+  }
+  return [outputName];
+}
+
+// Poll a job's task, download its results to public/ and run the post-generation hook.
+// When a task produces several files (Suno returns two tracks) they are all kept, as
+// <outputName>.<ext>, <outputName>-2.<ext>, ... or <outputName>-<suffix>.<ext> for named outputs.
+async function collectJobResult(
+  job: JobRecord,
+  maxAttempts?: number,
+  intervalMs?: number,
+  context?: PollContext
+): Promise<JobOutcome> {
+  const toolInfo = GENERATION_TOOLS[job.tool];
+  if (!toolInfo) {
+    return { success: false, error: `Unknown generation tool: ${job.tool}` };
+  }
+
+  const provider = getProvider(getMediaType(toolInfo.operation), job.provider);
+  // Providers from modules may still throw on a failed status check
+  const pollResult = await provider
+    .poll(toolInfo.operation, job.taskId, { maxAttempts, intervalMs, context })
+    .catch((error) => pollInterrupted(error, context?.signal));
+  if (pollResult.interrupted) {
+    return {
+      success: false,
+      error: `${pollResult.error}. Job ${job.id} is still pending; check it again with get_job_status or wait_for_job`,
+      interrupted: true,
+    };
+  }
+  if (!pollResult.success) {
+    return {
+      success: false,
+      error: pollResult.error,
+      timedOut: pollResult.timedOut,
+      cancelled: pollResult.cancelled,
+    };
+  }
+
+  const { urls, metadata, outputs } = provider.extractResultUrls(toolInfo.operation, pollResult.data);
+  const results: ResultOutput[] = outputs?.filter((o) => o.url).length
+    ? outputs.filter((o) => o.url)
+    : urls[0]
+      ? [{ url: urls[0] }]
+      : [];
+  if (results.length === 0) {
+    return { success: false, error: `No ${toolInfo.fileType} URL in response` };
+  }
+
+  const baseNameFor = (output: ResultOutput, index: number) => outputBaseName(job.outputName, output.suffix, index);
+
+  if (results.length === 1) {
+    return saveJobOutput(job, results[0], baseNameFor(results[0], 0), metadata);
+  }
+
+  // Each file is saved on its own, so one bad download doesn't lose the others
+  const saved: JobOutcome[] = [];
+  for (let i = 0; i < results.length; i++) {
+    try {
+      saved.push(await saveJobOutput(job, results[i], baseNameFor(results[i], i), metadata));
+    } catch (error) {
+      saved.push({ success: false, error: error instanceof Error ? error.message : String(error) });
     }
+  }
+
+  const outputResults = saved.map((outcome) =>
+    outcome.success ? outcome.result! : { success: false, error: outcome.error, ...outcome.details }
+  );
+  const first = saved.find((outcome) => outcome.success);
+  if (!first) {
+    return {
+      success: false,
+      error: `All ${results.length} outputs failed: ${saved[0].error}`,
+      details: { outputs: outputResults },
+    };
+  }
 
-    const data = result.data;
+  // The first saved file keeps the top-level fields; outputs lists every file, with an error for any that failed
+  return { success: true, result: { ...first.result, outputs: outputResults } };
+}
 
-    // Check if task completed successfully
-    if (data?.successFlag === 1 && data?.response?.resultUrls?.length > 0) {
-      return { success: true, videoUrl: data.response.resultUrls[0] };
+// Finish a job and record the outcome in the job journal
+async function completeJob(
+  job: JobRecord,
+  maxAttempts?: number,
+  intervalMs?: number,
+  context?: PollContext
+): Promise<JobOutcome> {
+  const active = activeJobs.get(job.id);
+  if (active) return joinActiveJob(job, active, maxAttempts, intervalMs, context);
+
+  const run = (async () => {
+    let outcome: JobOutcome;
+    try {
+      outcome = await collectJobResult(job, maxAttempts, intervalMs, context);
+    } catch (error) {
+      // The task finished but its result couldn't be saved (download or filesystem error). Left
+      // pending, it would be fetched again on every resume.
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[remotion-media-mcp] Job ${job.id} failed: ${message}`);
+      saveJob({ ...job, status: "failed", error: message });
+      throw error;
     }
 
-    // Check for error
-    if (data?.errorCode || data?.errorMessage) {
-      return { success: false, error: data.errorMessage || `Error code: ${data.errorCode}` };
+    // A timed-out, cancelled or interrupted poll leaves the job pending so it can be resumed later
+    if (!outcome.timedOut && !outcome.cancelled && !outcome.interrupted) {
+      saveJob(
+        outcome.success
+          ? { ...job, status: "completed", result: outcome.result }
+          : { ...job, status: "failed", error: outcome.error }
+      );
     }
+    return outcome;
+  })();
 
-    // Still processing (successFlag === 0)
-    console.error(`[remotion-media-mcp] Video ${taskId} status: processing, waiting...`);
-    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  activeJobs.set(job.id, run);
+  try {
+    return await run;
+  } finally {
+    activeJobs.delete(job.id);
   }
-
-  return { success: false, error: "Video generation timed out" };
 }
 
-// Poll for Suno music task completion
-async function pollMusicTaskStatus(
-  taskId: string,
-  apiKey: string,
-  maxAttempts = 180,
-  intervalMs = 5000
-): Promise<{
-  success: boolean;
-  audioUrl?: string;
-  title?: string;
-  duration?: number;
-  imageUrl?: string;
-  error?: string;
-}> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const response = await fetch(
-      `${API_BASE}/api/v1/generate/record-info?taskId=${taskId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-        },
+// Wait on a job another caller is already polling, within this caller's own budget: the shared
+// poll may have a longer one (resumePendingJobs uses the default). Progress is reported and the
+// wait can be cancelled; when the budget runs out the job is left pending, as with a timed-out poll.
+async function joinActiveJob(
+  job: JobRecord,
+  active: Promise<JobOutcome>,
+  maxAttempts?: number,
+  intervalMs?: number,
+  context?: PollContext
+): Promise<JobOutcome> {
+  const interval = intervalMs ?? getPollIntervalMs();
+  const startedAt = Date.now();
+  let attempt = 0;
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const stopped = new Promise<JobOutcome>((resolve) => {
+    timer = setInterval(() => {
+      attempt++;
+      if (maxAttempts !== undefined && attempt >= maxAttempts) {
+        resolve({ success: false, error: `Timed out waiting for job ${job.id}`, timedOut: true });
+        return;
       }
-    );
-
-    const result = await response.json();
+      context?.onProgress?.({
+        attempt,
+        maxAttempts: maxAttempts ?? 0,
+        state: "processing",
+        elapsedMs: Date.now() - startedAt,
+      });
+    }, interval);
 
-    if (result.code !== 200) {
-      return { success: false, error: `API error: ${result.msg}` };
-    }
+    onAbort = () => resolve({ success: false, error: `Stopped waiting for job ${job.id}`, cancelled: true });
+    if (context?.signal?.aborted) onAbort();
+    else context?.signal?.addEventListener("abort", onAbort, { once: true });
+  });
 
-    const data = result.data;
-    const status = data?.status;
+  try {
+    return await Promise.race([active, stopped]);
+  } finally {
+    clearInterval(timer);
+    if (onAbort) context?.signal?.removeEventListener("abort", onAbort);
+  }
+}
 
-    // SUCCESS means generation is complete
-    if (status === "SUCCESS" && data?.sunoData?.[0]?.audioUrl) {
-      const sunoData = data.sunoData[0];
-      return {
-        success: true,
-        audioUrl: sunoData.audioUrl,
-        title: sunoData.title,
-        duration: sunoData.duration,
-        imageUrl: sunoData.imageUrl,
-      };
-    }
+// Re-attach to jobs left pending by a previous server process
+async function resumePendingJobs(): Promise<void> {
+  const pending = listJobs("pending");
+  if (pending.length === 0) return;
 
-    // Check for error states
-    if (status === "FAILED" || status === "ERROR") {
-      return {
-        success: false,
-        error: data?.errorMessage || "Music generation failed",
-      };
+  console.error(`[remotion-media-mcp] Resuming ${pending.length} pending job(s)...`);
+  for (const job of pending) {
+    try {
+      const outcome = await completeJob(job);
+      console.error(
+        `[remotion-media-mcp] Resumed job ${job.id}: ${outcome.success ? "completed" : outcome.error}`
+      );
+    } catch (error) {
+      console.error(
+        `[remotion-media-mcp] Resumed job ${job.id} error:`,
+        error instanceof Error ? error.message : error
+      );
     }
+  }
+}
 
-    // Still processing (PENDING, TEXT_SUCCESS, FIRST_SUCCESS)
-    console.error(`[remotion-media-mcp] Music ${taskId} status: ${status}, waiting...`);
-    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+// Tool response for a finished (or failed) generation
+function jobResultResponse(outcome: JobOutcome) {
+  if (!outcome.success && outcome.details) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ success: false, error: outcome.error, ...outcome.details }, null, 2),
+        },
+      ],
+    };
+  }
+  if (!outcome.success) {
+    return {
+      content: [{ type: "text" as const, text: `Error: ${outcome.error}` }],
+    };
   }
 
-  return { success: false, error: "Music generation timed out" };
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(outcome.result, null, 2) }],
+  };
 }
 
-const server = new McpServer({
-  name: "remotion-media-mcp",
-  version: "1.0.0",
-});
+// Check a pending job once (or keep polling) and return its updated record
+async function refreshJob(
+  job: JobRecord,
+  maxAttempts?: number,
+  intervalMs?: number,
+  context?: PollContext
+): Promise<JobRecord> {
+  if (job.status !== "pending") return job;
+
+  await completeJob(job, maxAttempts, intervalMs, context);
+  return getJob(job.id) || job;
+}
 
-// Tool 1: Generate Image using Nano Banana Pro
-server.tool(
-  "generate_image",
-  "Generate an AI image from a text prompt. Use for: thumbnails, backgrounds, illustrations, product shots, concept art, or any visual asset. Supports multiple aspect ratios (1:1, 16:9, 9:16, etc.) and resolutions up to 4K. Can also use reference images for style guidance. Returns downloaded PNG path in public/ folder.",
-  {
-    prompt: z.string().describe("Text description of the image to generate"),
-    output_name: z.string().describe("Output filename without extension (required)"),
-    aspect_ratio: z
-      .enum(["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9", "auto"])
-      .optional()
-      .describe("Aspect ratio of the generated image. Defaults to 1:1"),
-    resolution: z
-      .enum(["1K", "2K", "4K"])
-      .optional()
-      .describe("Resolution of the generated image. Defaults to 1K"),
-    image_urls: z
-      .array(z.string())
-      .optional()
-      .describe("Optional reference image URLs (up to 8 images)"),
-  },
-  async ({ prompt, output_name, aspect_ratio, resolution, image_urls }) => {
-    try {
-      const apiKey = getApiKey();
-      console.error(`[remotion-media-mcp] Starting image generation: "${prompt.substring(0, 50)}..."`);
-
-      // Create task
-      const createResponse = await fetch(`${API_BASE}/api/v1/jobs/createTask`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: "nano-banana-pro",
-          input: {
-            prompt,
-            image_input: image_urls || [],
-            aspect_ratio: aspect_ratio || "1:1",
-            resolution: resolution || "1K",
-            output_format: "png",
+function jobStatusResponse(job: JobRecord) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            jobId: job.id,
+            status: job.status,
+            tool: job.tool,
+            taskId: job.taskId,
+            outputName: job.outputName,
+            createdAt: job.createdAt,
+            updatedAt: job.updatedAt,
+            ...(job.result && { result: job.result }),
+            ...(job.error && { error: job.error }),
           },
-        }),
-      });
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
 
-      const createResult = await createResponse.json();
+function jobNotFoundResponse(jobId: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          { error: "Job not found", message: `No job found with ID "${jobId}"` },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
 
-      if (createResult.code !== 200) {
-        return {
-          content: [{ type: "text" as const, text: `Error creating task: ${createResult.msg}` }],
-        };
-      }
+// Tool response for a job submitted with wait: false
+function jobSubmittedResponse(job: JobRecord) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            success: true,
+            status: job.status,
+            jobId: job.id,
+            taskId: job.taskId,
+            tool: job.tool,
+            message: "Job submitted. Use get_job_status or wait_for_job with this jobId to get the result.",
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
 
-      const taskId = createResult.data.taskId;
-      console.error(`[remotion-media-mcp] Task created: ${taskId}`);
+const waitParam = z
+  .boolean()
+  .optional()
+  .describe(
+    "Wait for generation to finish before returning. Set to false to return a job ID immediately and collect the result later with get_job_status or wait_for_job. Defaults to true"
+  );
 
-      // Poll for completion
-      const pollResult = await pollTaskStatus(taskId, apiKey);
+const previewParam = z
+  .boolean()
+  .optional()
+  .describe(
+    "Also return a downscaled preview of the result as image content (a poster frame for videos) so it can be reviewed. Requires wait. Defaults to false"
+  );
 
-      if (!pollResult.success) {
-        return {
-          content: [{ type: "text" as const, text: `Error: ${pollResult.error}` }],
-        };
-      }
+const onConflictParam = z
+  .enum(CONFLICT_MODES)
+  .optional()
+  .describe(
+    "What to do if the output file already exists: version (default) saves as <name>-v2, -v3, ...; suffix appends a timestamp; overwrite replaces the file; error refuses to generate"
+  );
 
-      // Extract image URL from result
-      const resultJson = JSON.parse(pollResult.data.resultJson);
-      const imageUrl = resultJson.resultUrls?.[0];
+// Shared parameter schemas for the generation tools and generate_batch
+const imageParams = {
+  prompt: z.string().describe("Text description of the image to generate"),
+  output_name: z.string().describe("Output filename without extension (required)"),
+  on_conflict: onConflictParam,
+  aspect_ratio: z
+    .enum(["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9", "auto"])
+    .optional()
+    .describe("Aspect ratio of the generated image. Defaults to 1:1"),
+  resolution: z
+    .enum(["1K", "2K", "4K"])
+    .optional()
+    .describe("Resolution of the generated image. Defaults to 1K"),
+  image_urls: z
+    .array(z.string())
+    .optional()
+    .describe("Optional reference images (up to 8): URLs, local paths (e.g. 'public/hero.png') or AIDs"),
+};
+
+const videoFromTextParams = {
+  prompt: z.string().describe("Text description of the video to generate"),
+  output_name: z.string().describe("Output filename without extension (required)"),
+  on_conflict: onConflictParam,
+  model: z
+    .enum(["veo3", "veo3_fast"])
+    .optional()
+    .describe("Model to use. veo3 = Quality, veo3_fast = Fast. Defaults to veo3_fast"),
+  aspect_ratio: z
+    .enum(["16:9", "9:16", "Auto"])
+    .optional()
+    .describe("Video aspect ratio. Defaults to 16:9"),
+};
+
+const videoFromImageParams = {
+  prompt: z.string().describe("Text description of how the video should animate/transition"),
+  image_urls: z
+    .array(z.string())
+    .min(1)
+    .max(2)
+    .describe(
+      "1-2 images as URLs, local paths (e.g. 'public/hero.png') or AIDs. 1 image = animate it. 2 images = transition from first to last frame."
+    ),
+  output_name: z.string().describe("Output filename without extension (required)"),
+  on_conflict: onConflictParam,
+  model: z
+    .enum(["veo3", "veo3_fast"])
+    .optional()
+    .describe("Model to use. veo3 = Quality, veo3_fast = Fast. Defaults to veo3_fast"),
+  aspect_ratio: z
+    .enum(["16:9", "9:16", "Auto"])
+    .optional()
+    .describe("Video aspect ratio. Defaults to 16:9"),
+};
+
+const soundEffectParams = {
+  prompt: z
+    .string()
+    .max(450)
+    .describe("Description of the sound effect to generate (max 450 chars)"),
+  output_name: z.string().describe("Output filename without extension (required)"),
+  on_conflict: onConflictParam,
+  duration_seconds: z
+    .number()
+    .min(0.5)
+    .max(22)
+    .optional()
+    .describe("Duration in seconds (0.5-22). If omitted, API auto-determines optimal length"),
+  loop: z
+    .boolean()
+    .optional()
+    .describe("Generate a seamless looping sound effect. Defaults to false"),
+};
+
+// Suno custom-mode settings, shared by generate_music, cover_music and extend_music
+const musicCustomParams = {
+  lyrics: z
+    .string()
+    .max(5000)
+    .optional()
+    .describe(
+      "Custom mode: exact lyrics to sing (max 3000 chars for V3_5/V4, 5000 for V4_5 and later). Required in custom mode unless instrumental"
+    ),
+  style: z
+    .string()
+    .max(1000)
+    .optional()
+    .describe(
+      "Custom mode: style tags, e.g. 'upbeat synth-pop, female vocals, 120 bpm' (max 200 chars for V3_5/V4, 1000 for V4_5 and later)"
+    ),
+  title: z
+    .string()
+    .max(100)
+    .optional()
+    .describe("Custom mode: track title (max 80 chars for V3_5/V4, 100 for V4_5 and later)"),
+  vocal_gender: z.enum(["male", "female"]).optional().describe("Custom mode: preferred vocal gender"),
+  negative_tags: z
+    .string()
+    .max(1000)
+    .optional()
+    .describe("Custom mode: styles or elements to avoid, e.g. 'heavy metal, screaming'"),
+};
+
+const musicModelParam = z
+  .enum(["V3_5", "V4", "V4_5", "V4_5PLUS", "V5"])
+  .optional()
+  .describe("Suno model version. V5 = latest/best quality. Defaults to V5");
+
+const musicParams = {
+  prompt: z
+    .string()
+    .max(500)
+    .describe("Description of the music to generate (max 500 chars)"),
+  output_name: z.string().describe("Output filename without extension (required)"),
+  on_conflict: onConflictParam,
+  instrumental: z
+    .boolean()
+    .optional()
+    .describe("Generate instrumental only (no vocals). Defaults to false"),
+  model: musicModelParam,
+  ...musicCustomParams,
+};
+
+const coverMusicParams = {
+  audio: z
+    .string()
+    .describe("Track to cover or remix: a URL, a local path (e.g. 'public/theme.mp3') or an AID. Local files are uploaded"),
+  prompt: z
+    .string()
+    .max(500)
+    .describe("Description of the new version, e.g. 'acoustic guitar ballad' (max 500 chars)"),
+  output_name: z.string().describe("Output filename without extension (required)"),
+  on_conflict: onConflictParam,
+  instrumental: z
+    .boolean()
+    .optional()
+    .describe("Generate instrumental only (no vocals). Defaults to false"),
+  model: musicModelParam,
+  ...musicCustomParams,
+};
+
+const extendMusicParams = {
+  source: z
+    .string()
+    .describe("Generated track to extend: local path (e.g. 'public/theme.mp3') or AID. Must have been made by generate_music, cover_music or extend_music"),
+  continue_at: z
+    .number()
+    .positive()
+    .describe("Second in the source track to continue from; must be before its end"),
+  prompt: z
+    .string()
+    .max(500)
+    .optional()
+    .describe("Description of the extension, recorded with the asset. Defaults to the source's description"),
+  output_name: z
+    .string()
+    .optional()
+    .describe("Output filename without extension. Defaults to <source name>-extended"),
+  on_conflict: onConflictParam,
+  ...musicCustomParams,
+};
+
+const separateStemsParams = {
+  source: z
+    .string()
+    .describe("Generated track to split: local path (e.g. 'public/theme.mp3') or AID. Must have been made by generate_music, cover_music or extend_music"),
+  type: z
+    .enum(["vocals", "stems"])
+    .optional()
+    .describe("vocals = vocals + instrumental; stems = up to 12 stems (drums, bass, guitar, ...). Defaults to vocals"),
+  output_name: z
+    .string()
+    .optional()
+    .describe("Base filename without extension; each stem is saved as <output_name>-<stem>.mp3. Defaults to the source name"),
+  on_conflict: onConflictParam,
+};
+
+// Suno's custom-mode limits per model version
+const MUSIC_LIMITS: Record<string, { lyrics: number; style: number; title: number }> = {
+  V3_5: { lyrics: 3000, style: 200, title: 80 },
+  V4: { lyrics: 3000, style: 200, title: 80 },
+  V4_5: { lyrics: 5000, style: 1000, title: 100 },
+  V4_5PLUS: { lyrics: 5000, style: 1000, title: 100 },
+  V5: { lyrics: 5000, style: 1000, title: 100 },
+};
+
+// Setting lyrics, style or title switches Suno to custom mode
+function isCustomMusic(args: { lyrics?: string; style?: string; title?: string }): boolean {
+  return Boolean(args.lyrics || args.style || args.title);
+}
 
-      if (!imageUrl) {
-        return {
-          content: [{ type: "text" as const, text: "Error: No image URL in response" }],
-        };
+// Custom-mode rules that depend on more than one field (and on the model version)
+function checkMusicSettings(
+  args: ParamsOf<typeof musicCustomParams>,
+  ctx: z.RefinementCtx,
+  model: string,
+  lyricsRequired: boolean
+): void {
+  const limits = MUSIC_LIMITS[model] || MUSIC_LIMITS.V5;
+
+  if (!isCustomMusic(args)) {
+    for (const field of ["vocal_gender", "negative_tags"] as const) {
+      if (args[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: "Only used in custom mode (set style and title)",
+        });
       }
+    }
+    return;
+  }
 
-      // Download image
-      const filename = output_name || `generated-${Date.now()}`;
-      const outputPath = path.resolve(process.cwd(), "public", `${filename}.png`);
-
-      console.error(`[remotion-media-mcp] Downloading image to ${outputPath}...`);
-      await downloadFile(imageUrl, outputPath);
-      console.error(`[remotion-media-mcp] Image saved successfully!`);
-
-      // Airtable post-generation hook
-      const postResult = await postGenerationHook({
-        remoteUrl: imageUrl,
-        localPath: outputPath,
-        filename: `${filename}.png`,
-        description: prompt,
-        fileType: "image",
-        sourceTool: "generate_image",
-        taskId,
+  for (const field of ["style", "title"] as const) {
+    if (!args[field]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: "Required in custom mode" });
+    }
+  }
+  if (lyricsRequired && !args.lyrics) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["lyrics"],
+      message: "Required in custom mode unless instrumental is true",
+    });
+  }
+  for (const field of ["lyrics", "style", "title"] as const) {
+    const value = args[field];
+    if (value && value.length > limits[field]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.too_big,
+        path: [field],
+        type: "string",
+        maximum: limits[field],
+        inclusive: true,
+        message: `${model} allows at most ${limits[field]} characters`,
       });
-
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(
-              {
-                success: true,
-                path: outputPath,
-                relativePath: `public/${filename}.png`,
-                taskId,
-                imageUrl,
-                ...(postResult?.aid && { aid: postResult.aid }),
-                ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
-                ...(postResult?.assetsPath && { assetsPath: postResult.assetsPath }),
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return {
-        content: [{ type: "text" as const, text: `Error generating image: ${message}` }],
-      };
     }
   }
-);
+}
 
-// Tool 2: Generate Video from Text using Veo 3.1
-server.tool(
-  "generate_video_from_text",
-  "Generate an AI video from a text description. Use for: explainer clips, b-roll footage, animated scenes, product demos, or any video content. Creates ~8 second clips. Choose 'veo3' for quality or 'veo3_fast' for speed. Supports 16:9 (landscape), 9:16 (portrait/mobile). Returns downloaded MP4 path in public/ folder.",
-  {
-    prompt: z.string().describe("Text description of the video to generate"),
-    output_name: z.string().describe("Output filename without extension (required)"),
-    model: z
-      .enum(["veo3", "veo3_fast"])
-      .optional()
-      .describe("Model to use. veo3 = Quality, veo3_fast = Fast. Defaults to veo3_fast"),
-    aspect_ratio: z
-      .enum(["16:9", "9:16", "Auto"])
-      .optional()
-      .describe("Video aspect ratio. Defaults to 16:9"),
-  },
-  async ({ prompt, output_name, model, aspect_ratio }) => {
-    try {
-      const apiKey = getApiKey();
-      console.error(`[remotion-media-mcp] Starting text-to-video generation: "${prompt.substring(0, 50)}..."`);
-
-      // Create video generation task
-      const createResponse = await fetch(`${API_BASE}/api/v1/veo/generate`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          prompt,
-          model: model || "veo3_fast",
-          generationType: "TEXT_2_VIDEO",
-          aspect_ratio: aspect_ratio || "16:9",
-          enableTranslation: true,
-        }),
+const musicParamsSchema = z
+  .object(musicParams)
+  .superRefine((args, ctx) => checkMusicSettings(args, ctx, args.model || "V5", !args.instrumental));
+
+const coverMusicParamsSchema = z
+  .object(coverMusicParams)
+  .superRefine((args, ctx) => checkMusicSettings(args, ctx, args.model || "V5", !args.instrumental));
+
+// Settings Suno was given, echoed in the result
+function musicSettings(args: ParamsOf<typeof musicCustomParams>, model: string, instrumental?: boolean) {
+  const customMode = isCustomMusic(args);
+  return {
+    mode: customMode ? "custom" : "simple",
+    model,
+    ...(instrumental !== undefined && { instrumental }),
+    ...(customMode && {
+      style: args.style,
+      title: args.title,
+      ...(args.lyrics && { lyrics: args.lyrics }),
+      ...(args.vocal_gender && { vocal_gender: args.vocal_gender }),
+      ...(args.negative_tags && { negative_tags: args.negative_tags }),
+    }),
+  };
+}
+
+const speechParams = {
+  text: z.string().max(5000).describe("Text to convert to speech (max 5000 chars)"),
+  output_name: z.string().describe("Output filename without extension"),
+  on_conflict: onConflictParam,
+  voice: z
+    .union([z.enum(PRESET_VOICE_NAMES), z.string().regex(VOICE_ID_PATTERN, "Expected a preset name or a 20-character voice ID")])
+    .optional()
+    .describe(
+      "Preset voice name (see list_voices for gender, accent and style) or an ElevenLabs voice ID for cloned and Voice Library voices. Defaults to Eric"
+    ),
+  model: z
+    .enum(["multilingual_v2", "turbo_v2_5"])
+    .optional()
+    .describe("TTS model. multilingual = best quality, turbo = faster. Defaults to turbo_v2_5"),
+  stability: z.number().min(0).max(1).optional().describe("Voice stability 0-1. Lower = more expressive. Default 0.5"),
+  similarity_boost: z.number().min(0).max(1).optional().describe("Voice similarity 0-1. Higher = closer to original. Default 0.75"),
+  speed: z.number().min(0.7).max(1.2).optional().describe("Speech speed 0.7-1.2. Default 1.0"),
+  timestamps: z
+    .boolean()
+    .optional()
+    .describe(
+      "Also write <name>.words.json with per-word start/end times (Remotion Caption objects) from the provider's alignment, or local Whisper when the provider has none"
+    ),
+};
+
+type ParamsOf<T extends z.ZodRawShape> = z.infer<z.ZodObject<T>>;
+
+// Voice and settings for one speaker in generate_dialogue
+const dialogueSpeakerParams = {
+  voice: speechParams.voice,
+  model: speechParams.model,
+  stability: speechParams.stability,
+  similarity_boost: speechParams.similarity_boost,
+  speed: speechParams.speed,
+};
+
+const dialogueParams = {
+  lines: z
+    .array(
+      z.object({
+        speaker: z.string().min(1).describe("Speaker name, a key of speakers"),
+        text: z.string().min(1).max(5000).describe("What the speaker says (max 5000 chars)"),
+      })
+    )
+    .min(1)
+    .max(100)
+    .describe("Script lines in order"),
+  speakers: z
+    .record(z.string(), z.object(dialogueSpeakerParams))
+    .describe('Voice and settings per speaker, e.g. {"Host": {"voice": "Brian"}, "Guest": {"voice": "Rachel", "speed": 1.1}}'),
+  output_name: z.string().describe("Output filename without extension. Lines are saved as <name>-line-01.mp3, ..."),
+  on_conflict: onConflictParam,
+  gap_ms: z.number().int().min(0).max(5000).optional().describe("Silence between lines in milliseconds. Defaults to 300"),
+};
+
+const dialogueParamsSchema = z.object(dialogueParams).superRefine((args, ctx) => {
+  args.lines.forEach((line, i) => {
+    if (!args.speakers[line.speaker]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["lines", i, "speaker"],
+        message: `No voice for speaker "${line.speaker}" in speakers`,
       });
+    }
+  });
+});
 
-      const createResult = await createResponse.json();
-      console.error(`[remotion-media-mcp] API response:`, JSON.stringify(createResult, null, 2));
+// Turn file inputs (reference images, audio to cover) into URLs the provider can fetch.
+// URLs pass through; local paths (and AIDs with a local copy) are uploaded with the
+// provider's uploadFile; other AIDs use their Airtable attachment URL.
+async function resolveFileInputs(
+  inputs: string[],
+  provider: MediaProvider
+): Promise<{ urls?: string[]; uploads?: { source: string; url: string }[]; error?: string }> {
+  const urls: string[] = [];
+  const uploads: { source: string; url: string }[] = [];
+
+  for (const input of inputs) {
+    if (/^https?:\/\//i.test(input)) {
+      urls.push(input);
+      continue;
+    }
 
-      if (createResult.code !== 200) {
-        return {
-          content: [{ type: "text" as const, text: `Error creating video task: ${createResult.msg || JSON.stringify(createResult)}` }],
-        };
+    let filePath: string | null = null;
+    if (/^A\d+$/i.test(input)) {
+      filePath = findAssetByAid(path.resolve(process.cwd(), "public"), input)?.filePath || null;
+      if (!filePath) {
+        const config = getAirtableConfig();
+        const record = config ? await getAirtableRecordByAid(config, input) : null;
+        const attachmentUrl = record?.fields.File?.[0]?.url;
+        if (!attachmentUrl) {
+          return { error: `No local file or Airtable attachment found for AID "${input}"` };
+        }
+        urls.push(attachmentUrl);
+        uploads.push({ source: input, url: attachmentUrl });
+        continue;
       }
-
-      const taskId = createResult.data.taskId;
-      console.error(`[remotion-media-mcp] Video task created: ${taskId}`);
-
-      // Poll for completion
-      const pollResult = await pollVeoTaskStatus(taskId, apiKey);
-
-      if (!pollResult.success) {
+    } else {
+      filePath = findLocalFile(input);
+      if (!filePath) {
         return {
-          content: [{ type: "text" as const, text: `Error: ${pollResult.error}` }],
+          error: `Could not find '${input}'. Searched in: ${LOCAL_SEARCH_DIRS.join(", ")} directories and as relative/absolute path.`,
         };
       }
+    }
 
-      // Download video
-      const filename = output_name || `generated-${Date.now()}`;
-      const outputPath = path.resolve(process.cwd(), "public", `${filename}.mp4`);
-
-      console.error(`[remotion-media-mcp] Downloading video to ${outputPath}...`);
-      await downloadFile(pollResult.videoUrl!, outputPath);
-      console.error(`[remotion-media-mcp] Video saved successfully!`);
-
-      // Airtable post-generation hook
-      const postResult = await postGenerationHook({
-        remoteUrl: pollResult.videoUrl,
-        localPath: outputPath,
-        filename: `${filename}.mp4`,
-        description: prompt,
-        fileType: "video",
-        sourceTool: "generate_video_from_text",
-        taskId,
-      });
+    if (!provider.uploadFile) {
+      return { error: `Provider "${provider.name}" can't upload local files; pass a public URL for '${input}'` };
+    }
 
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(
-              {
-                success: true,
-                path: outputPath,
-                relativePath: `public/${filename}.mp4`,
-                taskId,
-                videoUrl: pollResult.videoUrl,
-                ...(postResult?.aid && { aid: postResult.aid }),
-                ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
-                ...(postResult?.assetsPath && { assetsPath: postResult.assetsPath }),
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return {
-        content: [{ type: "text" as const, text: `Error generating video: ${message}` }],
-      };
+    console.error(`[remotion-media-mcp] Uploading ${filePath} for ${provider.name}...`);
+    const uploaded = await provider.uploadFile(filePath);
+    if (!uploaded.url) {
+      return { error: `Could not upload '${input}': ${uploaded.error}` };
     }
+    urls.push(uploaded.url);
+    uploads.push({ source: input, url: uploaded.url });
   }
-);
-
-// Tool 3: Generate Video from Image using Veo 3.1
-server.tool(
-  "generate_video_from_image",
-  "Animate a still image into video, or create a video transition between two images. Use for: bringing photos to life, creating parallax effects, morphing between scenes, or animating illustrations. Pass 1 image URL to animate it, or 2 image URLs to transition from first to last frame. Returns downloaded MP4 path in public/ folder.",
-  {
-    prompt: z.string().describe("Text description of how the video should animate/transition"),
-    image_urls: z
-      .array(z.string())
-      .min(1)
-      .max(2)
-      .describe("1-2 image URLs. 1 image = animate it. 2 images = transition from first to last frame."),
-    output_name: z.string().describe("Output filename without extension (required)"),
-    model: z
-      .enum(["veo3", "veo3_fast"])
-      .optional()
-      .describe("Model to use. veo3 = Quality, veo3_fast = Fast. Defaults to veo3_fast"),
-    aspect_ratio: z
-      .enum(["16:9", "9:16", "Auto"])
-      .optional()
-      .describe("Video aspect ratio. Defaults to 16:9"),
-  },
-  async ({ prompt, image_urls, output_name, model, aspect_ratio }) => {
-    try {
-      const apiKey = getApiKey();
-      console.error(`[remotion-media-mcp] Starting image-to-video generation with ${image_urls.length} image(s)...`);
-
-      // Determine generation type based on number of images
-      const generationType = image_urls.length === 1 ? "IMAGE_2_VIDEO" : "FIRST_AND_LAST_FRAMES_2_VIDEO";
-
-      // Create video generation task
-      const createResponse = await fetch(`${API_BASE}/api/v1/veo/generate`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          prompt,
-          imageUrls: image_urls,
-          model: model || "veo3_fast",
-          generationType,
-          aspect_ratio: aspect_ratio || "16:9",
-          enableTranslation: true,
-        }),
-      });
 
-      const createResult = await createResponse.json();
-      console.error(`[remotion-media-mcp] API response:`, JSON.stringify(createResult, null, 2));
-
-      if (createResult.code !== 200) {
-        return {
-          content: [{ type: "text" as const, text: `Error creating video task: ${createResult.msg || JSON.stringify(createResult)}` }],
-        };
-      }
+  return { urls, uploads };
+}
 
-      const taskId = createResult.data.taskId;
-      console.error(`[remotion-media-mcp] Video task created: ${taskId}`);
+// Create a task with the configured provider and record it in the job journal
+async function createGenerationJob(params: {
+  tool: string;
+  args: Record<string, any>;
+  // Extra values for the provider that aren't tool arguments (e.g. IDs looked up from a source asset)
+  providerParams?: Record<string, any>;
+  outputName: string;
+  description: string;
+  extras?: Record<string, any>;
+  parent?: AssetParent;
+}): Promise<{ job?: JobRecord; error?: string }> {
+  const { operation, label, extension } = GENERATION_TOOLS[params.tool];
+  const onConflict: ConflictMode = params.args.on_conflict || DEFAULT_CONFLICT_MODE;
+
+  // Fail before paying for a generation that couldn't be saved
+  if (onConflict === "error") {
+    const existing = expectedOutputNames(params.tool, params.outputName, params.args)
+      .map((name) => path.resolve(process.cwd(), "public", `${name}.${extension}`))
+      .find((filePath) => fs.existsSync(filePath));
+    if (existing) {
+      return { error: `Error: ${conflictError(existing)}` };
+    }
+  }
 
-      // Poll for completion
-      const pollResult = await pollVeoTaskStatus(taskId, apiKey);
+  const provider = getProvider(getMediaType(operation));
 
-      if (!pollResult.success) {
-        return {
-          content: [{ type: "text" as const, text: `Error: ${pollResult.error}` }],
-        };
+  // Local paths and AIDs become URLs here; the journal keeps the original inputs
+  let providerArgs = { ...params.args, ...params.providerParams };
+  let extras = params.extras;
+  if (params.args.image_urls?.length) {
+    const resolved = await resolveFileInputs(params.args.image_urls, provider);
+    if (!resolved.urls) {
+      return { error: `Error creating ${label} task: ${resolved.error}` };
+    }
+    providerArgs = { ...providerArgs, image_urls: resolved.urls };
+    if (resolved.uploads?.length) {
+      extras = { ...extras, imageInputs: resolved.uploads };
+    }
+  }
+  if (params.args.audio) {
+    const resolved = await resolveFileInputs([params.args.audio], provider);
+    if (!resolved.urls) {
+      return { error: `Error creating ${label} task: ${resolved.error}` };
+    }
+    providerArgs = { ...providerArgs, audio: resolved.urls[0] };
+    if (resolved.uploads?.length) {
+      extras = { ...extras, audioInput: resolved.uploads[0] };
+    }
+  }
+
+  const created = await provider.createTask({ operation, params: providerArgs });
+  if (!created.taskId) {
+    return { error: `Error creating ${label} task: ${created.error || "No task ID returned"}` };
+  }
+
+  const taskId = created.taskId;
+  console.error(`[remotion-media-mcp] ${label[0].toUpperCase()}${label.slice(1)} task created: ${taskId} (${provider.name})`);
+
+  const job = saveJob(
+    buildJob({
+      tool: params.tool,
+      provider: provider.name,
+      taskId,
+      model: created.model,
+      outputName: params.outputName,
+      onConflict,
+      description: params.description,
+      params: params.args,
+      extras,
+      parent: params.parent,
+    })
+  );
+  return { job };
+}
+
+async function submitImage(args: ParamsOf<typeof imageParams>, extras?: Record<string, any>) {
+  console.error(`[remotion-media-mcp] Starting image generation: "${args.prompt.substring(0, 50)}..."`);
+
+  return createGenerationJob({
+    tool: "generate_image",
+    args,
+    outputName: args.output_name || `generated-${Date.now()}`,
+    description: args.prompt,
+    extras,
+  });
+}
+
+async function submitVideoFromText(args: ParamsOf<typeof videoFromTextParams>) {
+  console.error(`[remotion-media-mcp] Starting text-to-video generation: "${args.prompt.substring(0, 50)}..."`);
+
+  return createGenerationJob({
+    tool: "generate_video_from_text",
+    args,
+    outputName: args.output_name || `generated-${Date.now()}`,
+    description: args.prompt,
+  });
+}
+
+async function submitVideoFromImage(args: ParamsOf<typeof videoFromImageParams>) {
+  console.error(`[remotion-media-mcp] Starting image-to-video generation with ${args.image_urls.length} image(s)...`);
+
+  return createGenerationJob({
+    tool: "generate_video_from_image",
+    args,
+    outputName: args.output_name || `generated-${Date.now()}`,
+    description: args.prompt,
+  });
+}
+
+async function submitSoundEffect(args: ParamsOf<typeof soundEffectParams>) {
+  console.error(`[remotion-media-mcp] Starting sound effect generation: "${args.prompt.substring(0, 50)}..."`);
+
+  return createGenerationJob({
+    tool: "generate_sound_effect",
+    args,
+    outputName: args.output_name || `sfx-${Date.now()}`,
+    description: args.prompt,
+  });
+}
+
+// Report zod issues from a cross-field check as one line
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+}
+
+async function submitMusic(args: ParamsOf<typeof musicParams>) {
+  // Custom-mode rules span several fields, so they are checked here for every caller (tool, batch, regenerate)
+  const parsed = musicParamsSchema.safeParse(args);
+  if (!parsed.success) {
+    return { error: `Invalid music parameters: ${formatIssues(parsed.error)}` };
+  }
+
+  const settings = musicSettings(args, args.model || "V5", args.instrumental === true);
+  console.error(
+    `[remotion-media-mcp] Starting music generation (${settings.mode} mode): "${args.prompt.substring(0, 50)}..."`
+  );
+
+  return createGenerationJob({
+    tool: "generate_music",
+    args,
+    outputName: args.output_name || `music-${Date.now()}`,
+    description: args.prompt,
+    extras: { settings },
+  });
+}
+
+async function submitCoverMusic(args: ParamsOf<typeof coverMusicParams>) {
+  const parsed = coverMusicParamsSchema.safeParse(args);
+  if (!parsed.success) {
+    return { error: `Invalid music parameters: ${formatIssues(parsed.error)}` };
+  }
+
+  console.error(`[remotion-media-mcp] Starting music cover of ${args.audio}: "${args.prompt.substring(0, 50)}..."`);
+
+  return createGenerationJob({
+    tool: "cover_music",
+    args,
+    outputName: args.output_name,
+    description: args.prompt,
+    extras: { settings: musicSettings(args, args.model || "V5", args.instrumental === true) },
+  });
+}
+
+// Find a track generated through Suno (local path or AID) with the IDs kie.ai needs to work on it
+function loadSunoTrack(source: string): {
+  filePath?: string;
+  metadata?: AssetMetadata;
+  error?: string;
+  message?: string;
+} {
+  const publicDir = path.resolve(process.cwd(), "public");
+  const found = /^A\d+$/i.test(source)
+    ? findAssetByAid(publicDir, source)
+    : (() => {
+        const filePath = findLocalFile(source);
+        const metadata = filePath ? readSidecar(filePath) : null;
+        return filePath && metadata ? { filePath, metadata } : null;
+      })();
+
+  if (!found) {
+    return {
+      error: "Track not found",
+      message: `No generated track with metadata found for '${source}'. Searched in: ${LOCAL_SEARCH_DIRS.join(", ")} directories and as relative/absolute path.`,
+    };
+  }
+  if (!found.metadata.taskId || !found.metadata.extras?.trackId) {
+    return {
+      error: "Not a Suno track",
+      message: `'${source}' has no Suno task and track ID in its metadata. Only tracks made by generate_music, cover_music or extend_music can be used.`,
+    };
+  }
+  return found;
+}
+
+function trackParent(filePath: string, metadata: AssetMetadata): AssetParent {
+  return {
+    path: path.relative(process.cwd(), filePath),
+    ...(metadata.aid && { aid: metadata.aid }),
+    ...(metadata.jobId && { jobId: metadata.jobId }),
+  };
+}
+
+async function submitExtendMusic(args: ParamsOf<typeof extendMusicParams>) {
+  const track = loadSunoTrack(args.source);
+  if (!track.filePath || !track.metadata) {
+    return { error: `Error: ${track.message}` };
+  }
+  const { filePath, metadata } = track;
+
+  // Suno extends with the model that made the source track
+  const model: string = metadata.extras?.settings?.model || metadata.params.model || "V5";
+  const parsed = z
+    .object(extendMusicParams)
+    .superRefine((a, ctx) => {
+      checkMusicSettings(a, ctx, model, false);
+      const duration = Number(metadata.extras?.duration);
+      if (duration > 0 && a.continue_at >= duration) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["continue_at"],
+          message: `Must be before the end of the source track (${duration}s)`,
+        });
+      }
+    })
+    .safeParse(args);
+  if (!parsed.success) {
+    return { error: `Invalid music parameters: ${formatIssues(parsed.error)}` };
+  }
+
+  const sourceName = path.basename(filePath, path.extname(filePath));
+  console.error(`[remotion-media-mcp] Extending ${filePath} from ${args.continue_at}s...`);
+
+  return createGenerationJob({
+    tool: "extend_music",
+    args,
+    providerParams: { audio_id: metadata.extras!.trackId, model },
+    outputName: args.output_name || `${sourceName}-extended`,
+    description: args.prompt || `Extension of ${path.basename(filePath)}: ${metadata.params.prompt || ""}`.trim(),
+    extras: { settings: musicSettings(args, model), continueAt: args.continue_at },
+    parent: trackParent(filePath, metadata),
+  });
+}
+
+async function submitSeparateStems(args: ParamsOf<typeof separateStemsParams>) {
+  const track = loadSunoTrack(args.source);
+  if (!track.filePath || !track.metadata) {
+    return { error: `Error: ${track.message}` };
+  }
+  const { filePath, metadata } = track;
+
+  console.error(`[remotion-media-mcp] Separating ${args.type || "vocals"} of ${filePath}...`);
+
+  return createGenerationJob({
+    tool: "separate_stems",
+    args,
+    providerParams: { source_task_id: metadata.taskId, audio_id: metadata.extras!.trackId },
+    outputName: args.output_name || path.basename(filePath, path.extname(filePath)),
+    description: `${args.type === "stems" ? "Stems" : "Vocals and instrumental"} of ${path.basename(filePath)}`,
+    parent: trackParent(filePath, metadata),
+  });
+}
+
+async function submitSpeech(args: ParamsOf<typeof speechParams>) {
+  console.error(`[remotion-media-mcp] Starting speech generation: "${args.text.substring(0, 50)}..."`);
+
+  return createGenerationJob({
+    tool: "generate_speech",
+    args,
+    outputName: args.output_name || `speech-${Date.now()}`,
+    description: args.text,
+    extras: {
+      voice: args.voice || DEFAULT_VOICE,
+      voiceId: findPresetVoice(args.voice || DEFAULT_VOICE)?.voiceId || args.voice,
+      model: args.model || "turbo_v2_5",
+    },
+  });
+}
+
+// One TTS request per chunk, so long scripts are split below this
+const SPEECH_MAX_CHARS = 5000;
+const LONG_SPEECH_MAX_CHARS = 100000;
+const DEFAULT_CHUNK_SILENCE_MS = 250;
+// Pieces generated at once for long-form speech and dialogue
+const SPEECH_CHUNK_CONCURRENCY = 3;
+const DEFAULT_DIALOGUE_GAP_MS = 300;
+
+// generate_speech's parameters, which also take long-form scripts
+const longFormSpeechParams = {
+  ...speechParams,
+  text: z
+    .string()
+    .max(LONG_SPEECH_MAX_CHARS)
+    .describe(
+      "Text to convert to speech. Over 5000 chars switches to long-form: split at paragraph/sentence boundaries and joined (max 100000 chars)"
+    ),
+  chunk_silence_ms: z
+    .number()
+    .int()
+    .min(0)
+    .max(5000)
+    .optional()
+    .describe("Long-form only: silence between chunks in milliseconds. Defaults to 250"),
+};
+
+const LONG_FORM_ASYNC_ERROR = "Long-form speech (over 5000 characters) is assembled within the call, so wait can't be false";
+
+// Generate one piece of speech straight to filePath (outside public/), for audio that is
+// assembled locally. Returns its duration when ffprobe can read it.
+// The task is journaled as a generate_speech job named outputName, left pending until the caller
+// has saved the assembled file (completeSpeechPieces): if the call fails or the server stops
+// first, the piece is collected into public/ like any other pending job.
+async function synthesizeSpeech(
+  provider: MediaProvider,
+  params: Record<string, any>,
+  filePath: string,
+  outputName: string,
+  context?: PollContext
+): Promise<{
+  job: JobRecord;
+  taskId: string;
+  model?: string;
+  remoteUrl: string;
+  durationMs?: number;
+  alignment?: CharacterAlignment;
+}> {
+  const created = await provider.createTask({ operation: "speech", params });
+  if (!created.taskId) {
+    throw new Error(created.error || "No task ID returned");
+  }
+  const job = saveJob(
+    buildJob({
+      tool: "generate_speech",
+      provider: provider.name,
+      taskId: created.taskId,
+      model: created.model,
+      outputName,
+      onConflict: DEFAULT_CONFLICT_MODE,
+      description: params.text,
+      params: { ...params, output_name: outputName },
+    })
+  );
+
+  const pollResult = await provider
+    .poll("speech", created.taskId, { context })
+    .catch((error) => pollInterrupted(error, context?.signal));
+  if (!pollResult.success) {
+    if (!pollResult.timedOut && !pollResult.cancelled && !pollResult.interrupted) {
+      saveJob({ ...job, status: "failed", error: pollResult.error });
+    }
+    throw new Error(pollResult.error || "Speech task failed");
+  }
+
+  const extracted = provider.extractResultUrls("speech", pollResult.data);
+  const remoteUrl = extracted.urls[0];
+  if (!remoteUrl) {
+    saveJob({ ...job, status: "failed", error: "No audio URL in response" });
+    throw new Error("No audio URL in response");
+  }
+
+  const { validation } = await downloadFile(remoteUrl, filePath, { validate: true });
+  if (validation && !validation.valid) {
+    saveJob({ ...job, status: "failed", error: `Downloaded speech failed validation: ${validation.error}` });
+    throw new Error(`Downloaded speech failed validation: ${validation.error}`);
+  }
+
+  const probe = await probeMedia(filePath);
+  return {
+    job,
+    taskId: created.taskId,
+    model: created.model,
+    remoteUrl,
+    ...(probe?.durationSeconds && { durationMs: probe.durationSeconds * 1000 }),
+    ...(extracted.outputs?.[0]?.alignment && { alignment: extracted.outputs[0].alignment }),
+  };
+}
+
+// Record journaled pieces of assembled speech as done once the assembled file is saved
+function completeSpeechPieces(pieces: { job: JobRecord; result: Record<string, any> }[]): void {
+  for (const { job, result } of pieces) {
+    saveJob({ ...job, status: "completed", result: { success: true, ...result } });
+  }
+}
+
+// Join audio files into outputPath through a partial file, so a failed join never leaves a broken output
+async function joinAudioFiles(inputs: string[], outputPath: string, gapMs: number): Promise<MediaValidation> {
+  const partialPath = partialPathFor(outputPath);
+  try {
+    await concatAudio(inputs, partialPath, gapMs);
+    const validation = await validateMediaFile(partialPath, {}, path.basename(outputPath));
+    if (validation.valid) {
+      fs.renameSync(partialPath, outputPath);
+    }
+    return validation;
+  } finally {
+    fs.rmSync(partialPath, { force: true });
+  }
+}
+
+// Long-form speech: split the script, generate the chunks with the same voice settings, join
+// them with silence in between and write a manifest of chunk timings next to the MP3.
+// Runs within the tool call, since the result is assembled locally; each chunk's task is
+// journaled as <output_name>-chunk-NN until the joined file is saved.
+async function runLongFormSpeech(
+  args: ParamsOf<typeof speechParams>,
+  silenceMs: number,
+  context: PollContext,
+  parent?: AssetParent
+): Promise<JobOutcome> {
+  const onConflict: ConflictMode = args.on_conflict || DEFAULT_CONFLICT_MODE;
+  const publicDir = path.resolve(process.cwd(), "public");
+  const requestedPath = path.join(publicDir, `${args.output_name}.mp3`);
+  if (onConflict === "error" && fs.existsSync(requestedPath)) {
+    return { success: false, error: conflictError(requestedPath) };
+  }
+
+  const chunks = splitScript(args.text, SPEECH_MAX_CHARS);
+  const voice = args.voice || DEFAULT_VOICE;
+  const model = args.model || "turbo_v2_5";
+  console.error(`[remotion-media-mcp] Starting long-form speech: ${args.text.length} chars in ${chunks.length} chunks`);
+
+  const provider = getProvider("speech");
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "remotion-media-speech-"));
+  let outputPath: string | undefined;
+
+  try {
+    // Every chunk gets the same voice and settings; only the text differs
+    const generated = await mapWithConcurrency(chunks, SPEECH_CHUNK_CONCURRENCY, async (text, i) => {
+      try {
+        const file = path.join(workDir, `chunk-${i + 1}.mp3`);
+        const chunkName = `${args.output_name}-chunk-${String(i + 1).padStart(2, "0")}`;
+        const result = await synthesizeSpeech(provider, { ...args, text, output_name: chunkName }, file, chunkName, context);
+        console.error(`[remotion-media-mcp] Speech chunk ${i + 1}/${chunks.length} done`);
+        return { text, file, ...result };
+      } catch (error) {
+        throw new Error(`Chunk ${i + 1} of ${chunks.length} failed: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    if (generated.some((g) => g.durationMs === undefined)) {
+      return { success: false, error: "ffprobe is required to time long-form speech (install it or set FFPROBE_PATH)" };
+    }
+
+    fs.mkdirSync(publicDir, { recursive: true });
+    const resolved = resolveOutputPath(publicDir, args.output_name, "mp3", onConflict);
+    if (!resolved.path) {
+      return { success: false, error: resolved.error };
+    }
+    outputPath = resolved.path;
+
+    const joined = await joinAudioFiles(
+      generated.map((g) => g.file),
+      outputPath,
+      silenceMs
+    );
+    if (!joined.valid) {
+      return {
+        success: false,
+        error: `Joined speech failed validation: ${joined.error}`,
+        details: { validation: joined.details },
+      };
+    }
+
+    const filename = path.basename(outputPath);
+    const { timings, durationMs } = timeChunks(
+      generated.map((g) => ({ text: g.text, durationMs: g.durationMs!, taskId: g.taskId })),
+      silenceMs
+    );
+    const manifest: NarrationManifest = { audio: filename, durationMs, silenceMs, voice, model, chunks: timings };
+    const manifestPath = path.join(publicDir, `${path.basename(filename, ".mp3")}.manifest.json`);
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+    console.error(`[remotion-media-mcp] Long-form speech saved to ${outputPath}`);
+
+    // Chunk alignments are offset to where each chunk starts; without all of them, align the joined file
+    const timingsInfo = args.timestamps
+      ? await writeSpeechTimings(
+          outputPath,
+          generated.every((g) => g.alignment)
+            ? generated.map((g, i) => ({ alignment: g.alignment!, offsetMs: timings[i].startMs }))
+            : undefined
+        )
+      : undefined;
+
+    // The joined file only exists locally, so the hook uploads it
+    const postResult = await postGenerationHook({
+      localPath: outputPath,
+      filename,
+      description: args.text.slice(0, 1000),
+      fileType: "audio",
+      sourceTool: "generate_speech",
+    });
+
+    const extras = {
+      voice,
+      voiceId: findPresetVoice(voice)?.voiceId || voice,
+      model,
+      chunkCount: chunks.length,
+      silenceMs,
+      chunkTaskIds: generated.map((g) => g.taskId),
+      manifestPath: path.relative(process.cwd(), manifestPath),
+      ...timingsInfo,
+    };
+    const metadataPath = await writeSidecar(outputPath, {
+      tool: "generate_speech",
+      params: { ...args, chunk_silence_ms: silenceMs },
+      provider: provider.name,
+      model: generated[0].model,
+      ...(postResult?.aid && { aid: postResult.aid }),
+      ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
+      extras,
+      ...(parent && { parent }),
+    });
+    completeSpeechPieces(generated.map((g) => ({ job: g.job, result: { assembledInto: `public/${filename}` } })));
+    notifyResourcesChanged();
+
+    return {
+      success: true,
+      result: {
+        success: true,
+        path: outputPath,
+        relativePath: `public/${filename}`,
+        ...(outputPath !== requestedPath && { requestedPath: `public/${args.output_name}.mp3` }),
+        durationMs,
+        ...extras,
+        ...(postResult?.aid && { aid: postResult.aid }),
+        ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
+        ...(postResult?.assetsPath && { assetsPath: postResult.assetsPath }),
+        metadataPath: path.relative(process.cwd(), metadataPath),
+        ...(parent && { parent }),
+      },
+    };
+  } finally {
+    if (outputPath) releaseOutputPath(outputPath);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// Dialogue: generate every line with its speaker's voice, save each line on its own and join
+// them into one track, with a timing file of who speaks when
+async function runDialogue(args: ParamsOf<typeof dialogueParams>, context: PollContext): Promise<JobOutcome> {
+  const parsed = dialogueParamsSchema.safeParse(args);
+  if (!parsed.success) {
+    return { success: false, error: `Invalid dialogue: ${formatIssues(parsed.error)}` };
+  }
+
+  const onConflict: ConflictMode = args.on_conflict || DEFAULT_CONFLICT_MODE;
+  const gapMs = args.gap_ms ?? DEFAULT_DIALOGUE_GAP_MS;
+  const publicDir = path.resolve(process.cwd(), "public");
+  const requestedPath = path.join(publicDir, `${args.output_name}.mp3`);
+  if (onConflict === "error" && fs.existsSync(requestedPath)) {
+    return { success: false, error: conflictError(requestedPath) };
+  }
+
+  const speakers = Object.fromEntries(
+    Object.entries(args.speakers).map(([name, settings]) => {
+      const voice = settings.voice || DEFAULT_VOICE;
+      return [name, { voice, voiceId: findPresetVoice(voice)?.voiceId || voice }];
+    })
+  );
+  console.error(
+    `[remotion-media-mcp] Starting dialogue: ${args.lines.length} lines, ${Object.keys(speakers).length} speakers`
+  );
+
+  const provider = getProvider("speech");
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "remotion-media-dialogue-"));
+  const reserved: string[] = [];
+
+  try {
+    const generated = await mapWithConcurrency(args.lines, SPEECH_CHUNK_CONCURRENCY, async (line, i) => {
+      const params = { ...args.speakers[line.speaker], voice: speakers[line.speaker].voice, text: line.text };
+      try {
+        const file = path.join(workDir, `line-${i + 1}.mp3`);
+        const lineName = `${args.output_name}-line-${String(i + 1).padStart(2, "0")}`;
+        const result = await synthesizeSpeech(provider, params, file, lineName, context);
+        console.error(`[remotion-media-mcp] Dialogue line ${i + 1}/${args.lines.length} done`);
+        return { ...line, params, file, ...result };
+      } catch (error) {
+        throw new Error(`Line ${i + 1} (${line.speaker}) failed: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    if (generated.some((g) => g.durationMs === undefined)) {
+      return { success: false, error: "ffprobe is required to time dialogue (install it or set FFPROBE_PATH)" };
+    }
+
+    fs.mkdirSync(publicDir, { recursive: true });
+    const resolved = resolveOutputPath(publicDir, args.output_name, "mp3", onConflict);
+    if (!resolved.path) {
+      return { success: false, error: resolved.error };
+    }
+    const outputPath = resolved.path;
+    reserved.push(outputPath);
+    const baseName = path.basename(outputPath, ".mp3");
+
+    // Line files follow the mixed track's name, so a versioned track gets versioned lines
+    const linePaths: string[] = [];
+    for (let i = 0; i < generated.length; i++) {
+      const line = resolveOutputPath(publicDir, `${baseName}-line-${String(i + 1).padStart(2, "0")}`, "mp3", onConflict);
+      if (!line.path) {
+        return { success: false, error: line.error };
+      }
+      reserved.push(line.path);
+      linePaths.push(line.path);
+    }
+
+    const joined = await joinAudioFiles(
+      generated.map((g) => g.file),
+      outputPath,
+      gapMs
+    );
+    if (!joined.valid) {
+      return {
+        success: false,
+        error: `Joined dialogue failed validation: ${joined.error}`,
+        details: { validation: joined.details },
+      };
+    }
+    generated.forEach((g, i) => fs.copyFileSync(g.file, linePaths[i]));
+
+    const filename = path.basename(outputPath);
+    const { timings, durationMs } = timeChunks(
+      generated.map((g) => ({ text: g.text, durationMs: g.durationMs! })),
+      gapMs
+    );
+    const lines: DialogueLineTiming[] = timings.map((t, i) => ({
+      index: t.index,
+      speaker: generated[i].speaker,
+      voice: speakers[generated[i].speaker].voice,
+      text: t.text,
+      file: path.relative(process.cwd(), linePaths[i]),
+      startMs: t.startMs,
+      endMs: t.endMs,
+      taskId: generated[i].taskId,
+    }));
+    const manifest: DialogueManifest = { audio: filename, durationMs, gapMs, speakers, lines };
+    const timingPath = path.join(publicDir, `${baseName}.timing.json`);
+    fs.writeFileSync(timingPath, JSON.stringify(manifest, null, 2));
+    console.error(`[remotion-media-mcp] Dialogue saved to ${outputPath}`);
+
+    // Each line is a plain generate_speech result, so it can be regenerated on its own
+    for (const [i, g] of generated.entries()) {
+      await writeSidecar(linePaths[i], {
+        tool: "generate_speech",
+        params: { ...g.params, output_name: path.basename(linePaths[i], ".mp3") },
+        provider: provider.name,
+        model: g.model,
+        taskId: g.taskId,
+        remoteUrl: g.remoteUrl,
+        extras: {
+          voice: speakers[g.speaker].voice,
+          voiceId: speakers[g.speaker].voiceId,
+          model: g.params.model || "turbo_v2_5",
+          dialogue: { audio: filename, index: i, speaker: g.speaker },
+        },
+      });
+    }
+
+    const postResult = await postGenerationHook({
+      localPath: outputPath,
+      filename,
+      description: args.lines.map((l) => `${l.speaker}: ${l.text}`).join("\n").slice(0, 1000),
+      fileType: "audio",
+      sourceTool: "generate_dialogue",
+    });
+
+    const extras = {
+      speakers,
+      gapMs,
+      lineCount: lines.length,
+      timingPath: path.relative(process.cwd(), timingPath),
+    };
+    const metadataPath = await writeSidecar(outputPath, {
+      tool: "generate_dialogue",
+      params: args,
+      provider: provider.name,
+      ...(postResult?.aid && { aid: postResult.aid }),
+      ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
+      extras,
+    });
+    completeSpeechPieces(
+      generated.map((g, i) => ({ job: g.job, result: { relativePath: lines[i].file, assembledInto: `public/${filename}` } }))
+    );
+    notifyResourcesChanged();
+
+    return {
+      success: true,
+      result: {
+        success: true,
+        path: outputPath,
+        relativePath: `public/${filename}`,
+        ...(outputPath !== requestedPath && { requestedPath: `public/${args.output_name}.mp3` }),
+        durationMs,
+        ...extras,
+        lines: lines.map(({ index, speaker, file, startMs, endMs }) => ({ index, speaker, file, startMs, endMs })),
+        ...(postResult?.aid && { aid: postResult.aid }),
+        ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
+        ...(postResult?.assetsPath && { assetsPath: postResult.assetsPath }),
+        metadataPath: path.relative(process.cwd(), metadataPath),
+      },
+    };
+  } finally {
+    reserved.forEach((p) => releaseOutputPath(p));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+const batchItemSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("image"), ...imageParams }),
+  z.object({ type: z.literal("video_from_text"), ...videoFromTextParams }),
+  z.object({ type: z.literal("video_from_image"), ...videoFromImageParams }),
+  z.object({ type: z.literal("sound_effect"), ...soundEffectParams }),
+  z.object({ type: z.literal("music"), ...musicParams }),
+  z.object({ type: z.literal("speech"), ...speechParams }),
+]);
+
+function submitBatchItem(item: z.infer<typeof batchItemSchema>) {
+  switch (item.type) {
+    case "image":
+      return submitImage(item);
+    case "video_from_text":
+      return submitVideoFromText(item);
+    case "video_from_image":
+      return submitVideoFromImage(item);
+    case "sound_effect":
+      return submitSoundEffect(item);
+    case "music":
+      return submitMusic(item);
+    case "speech":
+      return submitSpeech(item);
+  }
+}
+
+// Tools regenerate_asset can re-run, with the schema their stored parameters are checked against
+const REGENERABLE_TOOLS: Record<
+  string,
+  { shape: z.ZodRawShape; submit: (args: any) => Promise<{ job?: JobRecord; error?: string }> }
+> = {
+  generate_image: { shape: imageParams, submit: submitImage },
+  generate_video_from_text: { shape: videoFromTextParams, submit: submitVideoFromText },
+  generate_video_from_image: { shape: videoFromImageParams, submit: submitVideoFromImage },
+  generate_sound_effect: { shape: soundEffectParams, submit: submitSoundEffect },
+  generate_music: { shape: musicParams, submit: submitMusic },
+  generate_speech: { shape: speechParams, submit: submitSpeech },
+};
+
+// Find the original tool and parameters for a local asset path or an AID.
+// AIDs are matched against local sidecars first, then fall back to the Airtable record,
+// which only holds the prompt (Description) and filename.
+async function loadRegenerationSource(source: string): Promise<{
+  tool?: string;
+  params?: Record<string, any>;
+  parent?: AssetParent;
+  error?: string;
+  message?: string;
+}> {
+  const publicDir = path.resolve(process.cwd(), "public");
+
+  if (/^A\d+$/i.test(source)) {
+    const local = findAssetByAid(publicDir, source);
+    if (local) {
+      return {
+        tool: local.metadata.tool,
+        params: local.metadata.params,
+        parent: { path: path.relative(process.cwd(), local.filePath), aid: local.metadata.aid, jobId: local.metadata.jobId },
+      };
+    }
+
+    const config = getAirtableConfig();
+    const record = config ? await getAirtableRecordByAid(config, source) : null;
+    if (!record) {
+      return {
+        error: "Asset not found",
+        message: config
+          ? `No asset found with AID "${source}"`
+          : `No local metadata records AID "${source}" and Airtable is not configured`,
+      };
+    }
+
+    const filename: string = record.fields.Filename || "";
+    const mimeType: string = record.fields["MIME Type"] || getMimeType(filename);
+    return {
+      tool: mimeType.startsWith("image/")
+        ? "generate_image"
+        : mimeType.startsWith("video/")
+          ? "generate_video_from_text"
+          : undefined,
+      params: {
+        prompt: record.fields.Description || "",
+        output_name: path.basename(filename, path.extname(filename)) || source,
+      },
+      parent: { aid: record.fields.AID || source },
+    };
+  }
+
+  const filePath = findLocalFile(source);
+  if (!filePath) {
+    return {
+      error: "File not found",
+      message: `Could not find '${source}'. Searched in: ${LOCAL_SEARCH_DIRS.join(", ")} directories and as relative/absolute path.`,
+    };
+  }
+
+  const metadata = readSidecar(filePath);
+  if (!metadata) {
+    return {
+      error: "No metadata found",
+      message: `No ${path.basename(getSidecarPath(filePath))} next to '${source}', so its original parameters are unknown. Pass an AID instead if the asset is in Airtable.`,
+    };
+  }
+
+  return {
+    tool: metadata.tool,
+    params: metadata.params,
+    parent: {
+      path: path.relative(process.cwd(), filePath),
+      ...(metadata.aid && { aid: metadata.aid }),
+      ...(metadata.jobId && { jobId: metadata.jobId }),
+    },
+  };
+}
+
+// Submit one batch item and (unless wait is false) wait for its result; errors stay per-item
+async function runBatchItem(
+  item: z.infer<typeof batchItemSchema>,
+  index: number,
+  wait: boolean | undefined,
+  context: PollContext
+): Promise<Record<string, any>> {
+  const base = { index, type: item.type, output_name: item.output_name };
+  try {
+    const submission = await submitBatchItem(item);
+    if (!submission.job) {
+      return { ...base, success: false, error: submission.error };
+    }
+
+    if (wait === false) {
+      return {
+        ...base,
+        success: true,
+        status: submission.job.status,
+        jobId: submission.job.id,
+        taskId: submission.job.taskId,
+      };
+    }
+
+    const outcome = await completeJob(submission.job, undefined, undefined, context);
+    if (!outcome.success) {
+      return {
+        ...base,
+        success: false,
+        jobId: submission.job.id,
+        taskId: submission.job.taskId,
+        error: outcome.error,
+        ...outcome.details,
+      };
+    }
+    return { ...base, jobId: submission.job.id, ...outcome.result };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ...base, success: false, error: message };
+  }
+}
+
+// Run fn over items with at most `limit` in flight, keeping results in input order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+// Run a submitted generation as a tool call: wait for the result, or return the job handle
+async function runGenerationTool(
+  submission: { job?: JobRecord; error?: string },
+  wait: boolean | undefined,
+  context: PollContext,
+  options: { preview?: boolean } = {}
+) {
+  if (!submission.job) {
+    return {
+      content: [{ type: "text" as const, text: submission.error || "Error creating task" }],
+    };
+  }
+
+  if (wait === false) {
+    return jobSubmittedResponse(submission.job);
+  }
+
+  const outcome = await completeJob(submission.job, undefined, undefined, context);
+  const response = jobResultResponse(outcome);
+  if (!options.preview || !outcome.success || !outcome.result?.path) {
+    return response;
+  }
+
+  // Let the model look at what it made
+  return { content: [...response.content, await previewContent(outcome.result.path)] };
+}
+
+// Preview of a generated file as MCP image content, or a note saying why there isn't one
+async function previewContent(filePath: string) {
+  const { preview, error } = await createPreview(filePath);
+  return preview
+    ? { type: "image" as const, data: preview.data, mimeType: preview.mimeType }
+    : { type: "text" as const, text: `Preview unavailable: ${error}` };
+}
+
+// Generate num_images takes of one image as separate tasks saved as <output_name>-1.png,
+// -2.png, ... Their sidecars record the candidate set so select_candidate can promote one.
+async function runImageCandidates(
+  args: ParamsOf<typeof imageParams>,
+  count: number,
+  wait: boolean | undefined,
+  context: PollContext,
+  options: { preview?: boolean } = {}
+) {
+  const setId = `set-${randomUUID().slice(0, 8)}`;
+
+  const candidates = await Promise.all(
+    Array.from({ length: count }, async (_, i): Promise<Record<string, any>> => {
+      const index = i + 1;
+      const base = { candidate: index };
+      try {
+        const submission = await submitImage(
+          { ...args, output_name: `${args.output_name}-${index}` },
+          { candidate: { group: args.output_name, setId, index, count } }
+        );
+        if (!submission.job) {
+          return { ...base, success: false, error: submission.error };
+        }
+
+        if (wait === false) {
+          return {
+            ...base,
+            success: true,
+            status: submission.job.status,
+            jobId: submission.job.id,
+            taskId: submission.job.taskId,
+          };
+        }
+
+        const outcome = await completeJob(submission.job, undefined, undefined, context);
+        if (!outcome.success) {
+          return { ...base, success: false, jobId: submission.job.id, error: outcome.error, ...outcome.details };
+        }
+        return { ...base, jobId: submission.job.id, ...outcome.result };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { ...base, success: false, error: message };
+      }
+    })
+  );
+
+  const succeeded = candidates.filter((c) => c.success);
+  const content: ({ type: "text"; text: string } | { type: "image"; data: string; mimeType: string })[] = [
+    {
+      type: "text" as const,
+      text: JSON.stringify(
+        {
+          success: succeeded.length > 0,
+          outputName: args.output_name,
+          setId,
+          total: count,
+          succeeded: succeeded.length,
+          failed: count - succeeded.length,
+          candidates,
+          message:
+            wait === false
+              ? "Candidate jobs submitted. Collect each with wait_for_job, then call select_candidate with the chosen file."
+              : `Call select_candidate with the chosen candidate's path to save it as public/${args.output_name}.png and remove the others.`,
+        },
+        null,
+        2
+      ),
+    },
+  ];
+
+  if (options.preview && wait !== false) {
+    for (const candidate of succeeded) {
+      if (!candidate.path) continue;
+      content.push({ type: "text" as const, text: `Candidate ${candidate.candidate}: ${candidate.relativePath}` });
+      content.push(await previewContent(candidate.path));
+    }
+  }
+
+  return { content };
+}
+
+const server = new McpServer({
+  name: "remotion-media-mcp",
+  version: "1.0.0",
+});
+
+registerMediaResources(server);
+
+// Tell clients to refresh media://public and asset:// listings after a tool writes a file or record
+function notifyResourcesChanged(): void {
+  server.sendResourceListChanged();
+}
+
+// Tool 1: Generate Image using Nano Banana Pro
+server.tool(
+  "generate_image",
+  "Generate an AI image from a text prompt. Use for: thumbnails, backgrounds, illustrations, product shots, concept art, or any visual asset. Supports multiple aspect ratios (1:1, 16:9, 9:16, etc.) and resolutions up to 4K. Can also use reference images for style guidance. Returns downloaded PNG path in public/ folder.",
+  {
+    ...imageParams,
+    num_images: z
+      .number()
+      .int()
+      .min(1)
+      .max(8)
+      .optional()
+      .describe(
+        "Number of candidates to generate (1-8). More than 1 saves <output_name>-1.png, -2.png, ... for review; promote one with select_candidate. Defaults to 1"
+      ),
+    wait: waitParam,
+    preview: previewParam,
+  },
+  async ({ wait, preview, num_images, ...args }, extra) => {
+    try {
+      const context = pollContextFromRequest(extra, "Image");
+      if (num_images && num_images > 1) {
+        return await runImageCandidates(args, num_images, wait, context, { preview });
+      }
+      return await runGenerationTool(await submitImage(args), wait, context, { preview });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error generating image: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 2: Generate Video from Text using Veo 3.1
+server.tool(
+  "generate_video_from_text",
+  "Generate an AI video from a text description. Use for: explainer clips, b-roll footage, animated scenes, product demos, or any video content. Creates ~8 second clips. Choose 'veo3' for quality or 'veo3_fast' for speed. Supports 16:9 (landscape), 9:16 (portrait/mobile). Returns downloaded MP4 path in public/ folder.",
+  { ...videoFromTextParams, wait: waitParam, preview: previewParam },
+  async ({ wait, preview, ...args }, extra) => {
+    try {
+      const context = pollContextFromRequest(extra, "Video");
+      return await runGenerationTool(await submitVideoFromText(args), wait, context, { preview });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error generating video: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 3: Generate Video from Image using Veo 3.1
+server.tool(
+  "generate_video_from_image",
+  "Animate a still image into video, or create a video transition between two images. Use for: bringing photos to life, creating parallax effects, morphing between scenes, or animating illustrations. Pass 1 image URL to animate it, or 2 image URLs to transition from first to last frame. Returns downloaded MP4 path in public/ folder.",
+  { ...videoFromImageParams, wait: waitParam, preview: previewParam },
+  async ({ wait, preview, ...args }, extra) => {
+    try {
+      const context = pollContextFromRequest(extra, "Video");
+      return await runGenerationTool(await submitVideoFromImage(args), wait, context, { preview });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error generating video: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 4: Generate Sound Effect using ElevenLabs SFX V2
+server.tool(
+  "generate_sound_effect",
+  "Generate a custom sound effect from a text description. Use for: whooshes, impacts, ambient sounds, UI sounds, nature sounds, mechanical noises, or any audio effect. Duration 0.5-22 seconds (auto if not specified). Supports seamless looping for background audio. Returns downloaded MP3 path in public/ folder.",
+  { ...soundEffectParams, wait: waitParam },
+  async ({ wait, ...args }, extra) => {
+    try {
+      const context = pollContextFromRequest(extra, "Sound effect");
+      return await runGenerationTool(await submitSoundEffect(args), wait, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error generating sound effect: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 5: Generate Music using Suno
+server.tool(
+  "generate_music",
+  "Generate original AI music from a description. Use for: background music, jingles, intros/outros, mood pieces, or full songs with vocals. Describe the genre, mood, instruments, tempo, or style. Set instrumental=true for no vocals. For exact lyrics or a locked style (e.g. a brand jingle), use custom mode by setting style and title (plus lyrics unless instrumental). Uses Suno V5 for highest quality. Suno makes two tracks per call; both are saved (<output_name>.mp3 and <output_name>-2.mp3, with cover images) and listed under outputs. Returns downloaded MP3 paths in public/ folder.",
+  { ...musicParams, wait: waitParam },
+  async ({ wait, ...args }, extra) => {
+    try {
+      const context = pollContextFromRequest(extra, "Music");
+      return await runGenerationTool(await submitMusic(args), wait, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error generating music: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 6: Generate Speech using ElevenLabs Text-to-Speech
+server.tool(
+  "generate_speech",
+  "Convert text to natural-sounding speech audio (text-to-speech / TTS). Use for: voiceovers, narration, dialogue, announcements, or any spoken content. 21 preset voices (default: Eric) or any ElevenLabs voice ID from list_voices. Adjustable stability, similarity, and speed. Scripts over 5000 characters are generated in chunks and joined into one MP3 with a <name>.manifest.json of chunk start/end times (requires ffmpeg and ffprobe); each chunk is journaled as a <name>-chunk-NN job, collectable with wait_for_job if the call fails. Set timestamps for a <name>.words.json of word start/end times to sync captions. Returns downloaded MP3 path in public/ folder.",
+  {
+    ...longFormSpeechParams,
+    wait: waitParam,
+  },
+  async ({ wait, chunk_silence_ms, ...args }, extra) => {
+    try {
+      const context = pollContextFromRequest(extra, "Speech");
+      if (args.text.length > SPEECH_MAX_CHARS) {
+        if (wait === false) {
+          return { content: [{ type: "text" as const, text: `Error: ${LONG_FORM_ASYNC_ERROR}` }] };
+        }
+        return jobResultResponse(
+          await runLongFormSpeech(args, chunk_silence_ms ?? DEFAULT_CHUNK_SILENCE_MS, context)
+        );
+      }
+      return await runGenerationTool(await submitSpeech(args), wait, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error generating speech: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 7: Generate a batch of assets concurrently
+server.tool(
+  "generate_batch",
+  "Generate many assets in one call, e.g. every shot of a storyboard. Each item has a type (image, video_from_text, video_from_image, sound_effect, music, speech) plus the same parameters as the matching generate_* tool. Items run concurrently up to the concurrency limit. Returns a result per item with path, taskId, AID or error; one failed item does not fail the batch.",
+  {
+    items: z
+      .array(batchItemSchema)
+      .min(1)
+      .max(50)
+      .describe("Generation specs, each with a 'type' and that tool's parameters (1-50 items)"),
+    concurrency: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .optional()
+      .describe("Maximum generations running at once (1-10). Defaults to 3"),
+    wait: waitParam,
+  },
+  async ({ items, concurrency, wait }, extra) => {
+    try {
+      console.error(`[remotion-media-mcp] Starting batch of ${items.length} item(s)...`);
+
+      // Report progress per finished item rather than per poll, since items poll in parallel
+      const progressToken = extra._meta?.progressToken;
+      const itemContext: PollContext = { signal: extra.signal };
+      let finished = 0;
+      const reportItemFinished = async (index: number, success: boolean) => {
+        finished++;
+        if (progressToken === undefined) return;
+        try {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress: finished,
+              total: items.length,
+              message: `Item ${index} (${items[index].type}) ${success ? "finished" : "failed"}, ${finished}/${items.length} done`,
+            },
+          });
+        } catch {}
+      };
+
+      const results = await mapWithConcurrency(items, concurrency || 3, async (item, index) => {
+        const result = await runBatchItem(item, index, wait, itemContext);
+        await reportItemFinished(index, result.success);
+        return result;
+      });
+
+      const succeeded = results.filter((r) => r.success).length;
+      console.error(`[remotion-media-mcp] Batch finished: ${succeeded}/${items.length} succeeded`);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                success: succeeded > 0,
+                total: items.length,
+                succeeded,
+                failed: items.length - succeeded,
+                results,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error running batch: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 8: Generate subtitles using local Whisper
+server.tool(
+  "generate_subtitles",
+  "Transcribe audio/video to subtitles using local Whisper. Requires whisper-cpp (brew install whisper-cpp) or OpenAI whisper (pip install openai-whisper). Input file must be in public/ folder. Writes SRT by default; output_formats can add WebVTT, plain text and word-level JSON (Remotion Caption[] with startMs/endMs/confidence, for @remotion/captions). Returns the paths of the generated files.",
+  {
+    input_file: z.string().describe("Filename in public/ folder (e.g., 'video.mp4' or 'audio.mp3')"),
+    output_name: z.string().optional().describe("Output filename without extension. Defaults to input filename"),
+    language: z.string().optional().describe("Language code (e.g., 'en', 'es', 'fr'). Auto-detects if not specified"),
+    model: z
+      .enum(["tiny", "base", "small", "medium", "large"])
+      .optional()
+      .describe("Whisper model size. tiny=fastest, large=most accurate. Default: base"),
+    on_conflict: onConflictParam,
+    output_formats: z
+      .array(z.enum(SUBTITLE_FORMATS))
+      .min(1)
+      .optional()
+      .describe(
+        "Files to write: srt, vtt, json (word-level Remotion Caption[] with startMs, endMs and confidence) and/or txt. Default: ['srt']"
+      ),
+  },
+  async ({ input_file, output_name, language, model, on_conflict, output_formats }) => {
+    const reserved: string[] = [];
+    let workDir: string | undefined;
+    try {
+      // 1. Check whisper is installed
+      const whisperInfo = getWhisperCommand();
+      if (!whisperInfo) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  error: "Whisper not installed",
+                  message: "This tool requires whisper-cpp or openai-whisper to be installed locally.",
+                  install_instructions: {
+                    mac: "brew install whisper-cpp",
+                    pip: "pip install openai-whisper",
+                  },
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      // 2. Verify input file exists in public/
+      const publicDir = path.resolve(process.cwd(), "public");
+      const inputPath = path.join(publicDir, input_file);
+
+      if (!fs.existsSync(inputPath)) {
+        // List available files for helpful error message
+        const availableFiles: string[] = [];
+        if (fs.existsSync(publicDir)) {
+          const files = fs.readdirSync(publicDir);
+          const mediaFiles = files.filter((f) =>
+            /\.(mp4|mp3|wav|webm|mov|m4a|ogg|flac|mkv|avi)$/i.test(f)
+          );
+          availableFiles.push(...mediaFiles);
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  error: "File not found",
+                  message: `Could not find '${input_file}' in public/ folder`,
+                  available_files: availableFiles.length > 0 ? availableFiles : "No media files found",
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      // 3. Determine output filenames, without clobbering existing files unless on_conflict says so
+      const formats = [...new Set<SubtitleFormat>(output_formats || ["srt"])];
+      const baseName = output_name || path.basename(input_file, path.extname(input_file));
+      const outputPaths: Partial<Record<SubtitleFormat, string>> = {};
+      for (const format of formats) {
+        const resolvedOutput = resolveOutputPath(publicDir, baseName, format, on_conflict);
+        if (!resolvedOutput.path) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({ error: "File exists", message: resolvedOutput.error }, null, 2),
+              },
+            ],
+          };
+        }
+        reserved.push(resolvedOutput.path);
+        outputPaths[format] = resolvedOutput.path;
+      }
+      const modelSize = model || "base";
+
+      // Whisper writes into a scratch directory; results are moved to public/ afterwards
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), "remotion-media-whisper-"));
+
+      console.error(`[remotion-media-mcp] Starting subtitle generation with ${whisperInfo.type}...`);
+      console.error(`[remotion-media-mcp] Input: ${inputPath}`);
+      console.error(`[remotion-media-mcp] Model: ${modelSize}`);
+
+      // Cue-level formats come straight from Whisper; json is word-level
+      const cueFormats = formats.filter((f) => f !== "json");
+      const wantsWords = formats.includes("json");
+      let command: string | undefined;
+      // Where Whisper writes each format
+      const whisperOutputs: Partial<Record<SubtitleFormat, string>> = {};
+
+      if (whisperInfo.type === "whisper-cpp") {
+        // whisper.cpp command (whisper-cli)
+        let modelPath: string;
+        try {
+          modelPath = await ensureWhisperModel(modelSize);
+        } catch (downloadError: any) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(
+                  {
+                    error: "Model download failed",
+                    message: `Could not download whisper model '${modelSize}'`,
+                    details: downloadError.message,
+                    manual_download: `Download from ${whisperModelUrl(modelSize)} and place in ./models/`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        // whisper-cli outputs to <output_prefix>.<format>. Word timings need --max-len 1, which
+        // would also split the cues into single words, so they are a separate pass (transcribeWords).
+        if (cueFormats.length > 0) {
+          const outputPrefix = path.join(workDir, baseName);
+          cueFormats.forEach((f) => (whisperOutputs[f] = `${outputPrefix}.${f}`));
+
+          command = `"${whisperInfo.cmd}" -m "${modelPath}" -f "${inputPath}" ${cueFormats.map((f) => `-o${f}`).join(" ")} -of "${outputPrefix}"`;
+          if (language) {
+            command += ` -l ${language}`;
+          }
+        }
+      } else {
+        // OpenAI whisper command; it names the output after the input file. Its json holds
+        // per-word timings with --word_timestamps, so one pass covers every format.
+        const outputStem = path.join(workDir, path.basename(input_file, path.extname(input_file)));
+        formats.forEach((f) => (whisperOutputs[f] = `${outputStem}.${f}`));
+
+        const outputFormat = formats.length === 1 ? formats[0] : "all";
+        command = `whisper "${inputPath}" --output_format ${outputFormat} --output_dir "${workDir}" --model ${modelSize}`;
+        if (wantsWords) {
+          command += " --word_timestamps True";
+        }
+        if (language) {
+          command += ` --language ${language}`;
+        }
+      }
+
+      // 4. Run whisper command
+      let captions: Caption[] | undefined;
+      try {
+        if (command) {
+          console.error(`[remotion-media-mcp] Running: ${command}`);
+          const { stdout, stderr } = await execAsync(command, {
+            timeout: 600000, // 10 minute timeout
+            maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+          });
+
+          if (stderr) {
+            console.error(`[remotion-media-mcp] Whisper stderr: ${stderr}`);
+          }
+          if (stdout) {
+            console.error(`[remotion-media-mcp] Whisper stdout: ${stdout}`);
+          }
+        }
+        if (wantsWords && whisperInfo.type === "whisper-cpp") {
+          captions = await transcribeWords(whisperInfo, inputPath, { model: modelSize, language });
+        }
+      } catch (execError: any) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  error: "Transcription failed",
+                  message: execError.message,
+                  stderr: execError.stderr,
+                  stdout: execError.stdout,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      // 5. Verify outputs exist
+      const missing = Object.entries(whisperOutputs).find(([, file]) => !fs.existsSync(file));
+      if (missing) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  error: "Output not found",
+                  message: `Expected ${missing[0].toUpperCase()} file at ${missing[1]} but it was not created`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+      if (wantsWords && !captions) {
+        captions = parseOpenAiWhisperJson(JSON.parse(fs.readFileSync(whisperOutputs.json!, "utf-8")));
+      }
+
+      // The scratch directory may be on another filesystem, so write next to the target first
+      const files: Record<string, any>[] = [];
+      for (const format of formats) {
+        const outputPath = outputPaths[format]!;
+        const partialPath = partialPathFor(outputPath);
+        try {
+          if (format === "json") {
+            fs.writeFileSync(partialPath, JSON.stringify(captions, null, 2));
+          } else {
+            fs.copyFileSync(whisperOutputs[format]!, partialPath);
+          }
+          fs.renameSync(partialPath, outputPath);
+        } finally {
+          fs.rmSync(partialPath, { force: true });
+        }
+
+        const metadataPath = await writeSidecar(outputPath, {
+          tool: "generate_subtitles",
+          params: { input_file, output_name, language, model, on_conflict, output_formats },
+          provider: whisperInfo.type,
+          model: modelSize,
+          ...(format === "json" && { extras: { wordCount: captions!.length } }),
+        });
+        files.push({
+          format,
+          path: outputPath,
+          relativePath: `public/${path.basename(outputPath)}`,
+          ...(path.basename(outputPath) !== `${baseName}.${format}` && { requestedPath: `public/${baseName}.${format}` }),
+          metadataPath: path.relative(process.cwd(), metadataPath),
+        });
+      }
+      console.error(`[remotion-media-mcp] Subtitles generated successfully!`);
+      notifyResourcesChanged();
+
+      // The first file is also reported at the top level, as before output_formats existed
+      const { format: _format, ...first } = files[0];
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                success: true,
+                ...first,
+                ...(files.length > 1 && { files }),
+                ...(captions && { wordCount: captions.length }),
+                whisperCommand: whisperInfo.type,
+                model: modelSize,
+                language: language || "auto-detected",
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error generating subtitles: ${message}` }],
+      };
+    } finally {
+      reserved.forEach((p) => releaseOutputPath(p));
+      if (workDir) fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+);
+
+// Tool 9: List Assets
+server.tool(
+  "list_assets",
+  "Browse assets stored in the asset library. Shows AID, filename, description, file type, and creation date. Supports filtering by file type and pagination. Requires AIRTABLE_API_KEY to be configured.",
+  {
+    file_type: z
+      .enum(["image", "video", "audio", "subtitle", "other"])
+      .optional()
+      .describe("Filter by file type"),
+    max_records: z
+      .number()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Maximum records to return (default: 20, max: 100)"),
+    page_offset: z
+      .string()
+      .optional()
+      .describe("Pagination offset from a previous list call"),
+  },
+  async ({ file_type, max_records, page_offset }) => {
+    try {
+      const config = getAirtableConfig();
+      if (!config) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  error: "Airtable not configured",
+                  message:
+                    "Set AIRTABLE_API_KEY, AIRTABLE_BASE_ID, and optionally AIRTABLE_TABLE_NAME environment variables to enable Airtable integration.",
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      // Build filter formula for file type
+      let filterByFormula: string | undefined;
+      if (file_type) {
+        const mimePrefix: Record<string, string> = {
+          image: "image/",
+          video: "video/",
+          audio: "audio/",
+          subtitle: "text/",
+          other: "",
+        };
+        const prefix = mimePrefix[file_type];
+        if (prefix) {
+          filterByFormula = `SEARCH("${prefix}", {MIME Type}) > 0`;
+        }
       }
 
-      // Download video
-      const filename = output_name || `generated-${Date.now()}`;
-      const outputPath = path.resolve(process.cwd(), "public", `${filename}.mp4`);
-
-      console.error(`[remotion-media-mcp] Downloading video to ${outputPath}...`);
-      await downloadFile(pollResult.videoUrl!, outputPath);
-      console.error(`[remotion-media-mcp] Video saved successfully!`);
-
-      // Airtable post-generation hook
-      const postResult = await postGenerationHook({
-        remoteUrl: pollResult.videoUrl,
-        localPath: outputPath,
-        filename: `${filename}.mp4`,
-        description: prompt,
-        fileType: "video",
-        sourceTool: "generate_video_from_image",
-        taskId,
+      const result = await listAirtableRecords(config, {
+        filterByFormula,
+        maxRecords: max_records || 20,
+        offset: page_offset,
       });
 
+      const assets = result.records.map((r) => ({
+        aid: r.fields.AID || "",
+        filename: r.fields.Filename || "",
+        description: r.fields.Description || "",
+        mimeType: r.fields["MIME Type"] || "",
+        fileType: r.fields.Filename ? detectFileType(r.fields.Filename) : "other",
+        hasAttachment: Array.isArray(r.fields.File) && r.fields.File.length > 0,
+        createdAt: r.createdTime || "",
+      }));
+
       return {
         content: [
           {
@@ -611,13 +2759,9 @@ server.tool(
             text: JSON.stringify(
               {
                 success: true,
-                path: outputPath,
-                relativePath: `public/${filename}.mp4`,
-                taskId,
-                videoUrl: pollResult.videoUrl,
-                ...(postResult?.aid && { aid: postResult.aid }),
-                ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
-                ...(postResult?.assetsPath && { assetsPath: postResult.assetsPath }),
+                count: assets.length,
+                assets,
+                ...(result.offset && { nextPageOffset: result.offset }),
               },
               null,
               2
@@ -628,116 +2772,118 @@ server.tool(
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
-        content: [{ type: "text" as const, text: `Error generating video: ${message}` }],
+        content: [{ type: "text" as const, text: `Error listing Airtable assets: ${message}` }],
       };
     }
   }
 );
 
-// Tool 4: Generate Sound Effect using ElevenLabs SFX V2
+// Tool 10: Backup Asset
 server.tool(
-  "generate_sound_effect",
-  "Generate a custom sound effect from a text description. Use for: whooshes, impacts, ambient sounds, UI sounds, nature sounds, mechanical noises, or any audio effect. Duration 0.5-22 seconds (auto if not specified). Supports seamless looping for background audio. Returns downloaded MP3 path in public/ folder.",
+  "backup_asset",
+  "Back up a local file to the asset library. Supports files from assets/, out/, public/, or any relative path. Creates a record with metadata and file attachment, assigns an AID, and optionally renames the local file with the AID prefix. Requires AIRTABLE_API_KEY to be configured.",
   {
-    prompt: z
+    file_path: z
       .string()
-      .max(450)
-      .describe("Description of the sound effect to generate (max 450 chars)"),
-    output_name: z.string().describe("Output filename without extension (required)"),
-    duration_seconds: z
-      .number()
-      .min(0.5)
-      .max(22)
+      .describe(
+        "Path to the local file (e.g., 'assets/hero.png', 'out/video.mp4', 'public/music.mp3', or any relative/absolute path)"
+      ),
+    description: z.string().describe("Description of the asset"),
+    file_type: z
+      .enum(["image", "video", "audio", "subtitle", "other"])
       .optional()
-      .describe("Duration in seconds (0.5-22). If omitted, API auto-determines optimal length"),
-    loop: z
-      .boolean()
+      .describe("File type (auto-detected from extension if not specified)"),
+    remote_url: z
+      .string()
       .optional()
-      .describe("Generate a seamless looping sound effect. Defaults to false"),
+      .describe("Optional remote URL for the file (used as attachment instead of uploading)"),
   },
-  async ({ prompt, output_name, duration_seconds, loop }) => {
+  async ({ file_path, description, file_type, remote_url }) => {
     try {
-      const apiKey = getApiKey();
-      console.error(`[remotion-media-mcp] Starting sound effect generation: "${prompt.substring(0, 50)}..."`);
-
-      // Build input for the sound effect model
-      const input: Record<string, any> = {
-        text: prompt,
-        output_format: "mp3_44100_128",
-        prompt_influence: 0.3,
-      };
-
-      if (duration_seconds !== undefined) {
-        input.duration_seconds = duration_seconds;
-      }
-
-      if (loop === true) {
-        input.loop = true;
+      const config = getAirtableConfig();
+      if (!config) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  error: "Airtable not configured",
+                  message:
+                    "Set AIRTABLE_API_KEY, AIRTABLE_BASE_ID, and optionally AIRTABLE_TABLE_NAME environment variables to enable Airtable integration.",
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
       }
 
-      // Create sound effect task using jobs/createTask with elevenlabs/sound-effect-v2 model
-      const createResponse = await fetch(`${API_BASE}/api/v1/jobs/createTask`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: "elevenlabs/sound-effect-v2",
-          input,
-        }),
-      });
-
-      const createResult = await createResponse.json();
-      console.error(`[remotion-media-mcp] API response:`, JSON.stringify(createResult, null, 2));
-
-      if (createResult.code !== 200) {
+      const resolvedPath = findLocalFile(file_path);
+      if (!resolvedPath) {
         return {
-          content: [{ type: "text" as const, text: `Error creating sound effect task: ${createResult.msg || JSON.stringify(createResult)}` }],
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  error: "File not found",
+                  message: `Could not find '${file_path}'. Searched in: ${LOCAL_SEARCH_DIRS.join(", ")} directories and as relative/absolute path.`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
         };
       }
 
-      const taskId = createResult.data?.taskId;
-      console.error(`[remotion-media-mcp] Sound effect task created: ${taskId}`);
+      const filename = path.basename(resolvedPath);
+      const detectedType = file_type || detectFileType(filename);
+      const mimeType = getMimeType(filename);
 
-      // Poll for completion using standard polling
-      const pollResult = await pollTaskStatus(taskId, apiKey);
+      // Create Airtable record
+      const record = await createAirtableRecord(config, {
+        description,
+        fileUrl: remote_url,
+        filename,
+        mimeType,
+      });
 
-      if (!pollResult.success) {
+      if (!record) {
         return {
-          content: [{ type: "text" as const, text: `Error: ${pollResult.error}` }],
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                { error: "Failed to create Airtable record" },
+                null,
+                2
+              ),
+            },
+          ],
         };
       }
 
-      // Extract audio URL from result
-      const resultJson = JSON.parse(pollResult.data.resultJson);
-      const audioUrl = resultJson.resultUrls?.[0] || resultJson.audio_url || resultJson.audioUrl;
+      const { aid, recordId } = record;
 
-      if (!audioUrl) {
-        console.error(`[remotion-media-mcp] Result JSON:`, JSON.stringify(resultJson, null, 2));
-        return {
-          content: [{ type: "text" as const, text: "Error: No audio URL in response" }],
-        };
+      // If no remote URL, upload the file directly
+      if (!remote_url) {
+        await uploadAttachmentToAirtable(config, recordId, resolvedPath, filename);
       }
 
-      // Download audio
-      const filename = output_name || `sfx-${Date.now()}`;
-      const outputPath = path.resolve(process.cwd(), "public", `${filename}.mp3`);
-
-      console.error(`[remotion-media-mcp] Downloading sound effect to ${outputPath}...`);
-      await downloadFile(audioUrl, outputPath);
-      console.error(`[remotion-media-mcp] Sound effect saved successfully!`);
-
-      // Airtable post-generation hook
-      const postResult = await postGenerationHook({
-        remoteUrl: audioUrl,
-        localPath: outputPath,
-        filename: `${filename}.mp3`,
-        description: prompt,
-        fileType: "audio",
-        sourceTool: "generate_sound_effect",
-        taskId,
-      });
+      // Rename file with AID prefix if it's in assets/ and not already prefixed
+      let renamedTo: string | undefined;
+      const parentDir = path.basename(path.dirname(resolvedPath));
+      if (parentDir === "assets" && aid && !/^A\d+-/.test(filename)) {
+        const newFilename = `${aid}-${filename}`;
+        const newPath = path.join(path.dirname(resolvedPath), newFilename);
+        fs.renameSync(resolvedPath, newPath);
+        renamedTo = newFilename;
+        console.error(`[remotion-media-mcp] Renamed ${filename} → ${newFilename}`);
+      }
+      notifyResourcesChanged();
 
       return {
         content: [
@@ -746,13 +2892,11 @@ server.tool(
             text: JSON.stringify(
               {
                 success: true,
-                path: outputPath,
-                relativePath: `public/${filename}.mp3`,
-                taskId,
-                audioUrl,
-                ...(postResult?.aid && { aid: postResult.aid }),
-                ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
-                ...(postResult?.assetsPath && { assetsPath: postResult.assetsPath }),
+                aid,
+                recordId,
+                filename,
+                fileType: detectedType,
+                ...(renamedTo && { renamedTo }),
               },
               null,
               2
@@ -763,234 +2907,124 @@ server.tool(
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
-        content: [{ type: "text" as const, text: `Error generating sound effect: ${message}` }],
+        content: [{ type: "text" as const, text: `Error backing up to Airtable: ${message}` }],
       };
     }
   }
 );
 
-// Tool 5: Generate Music using Suno
+// Tool 11: Get Asset
 server.tool(
-  "generate_music",
-  "Generate original AI music from a description. Use for: background music, jingles, intros/outros, mood pieces, or full songs with vocals. Describe the genre, mood, instruments, tempo, or style. Set instrumental=true for no vocals. Uses Suno V5 for highest quality. Returns downloaded MP3 path in public/ folder.",
+  "get_asset",
+  "Pull an asset from the library by its AID. Downloads the attachment and saves it locally with the AID-prefixed filename. Requires AIRTABLE_API_KEY to be configured.",
   {
-    prompt: z
+    aid: z
+      .string()
+      .describe("The AID of the asset to download (e.g., 'A42')"),
+    target_dir: z
       .string()
-      .max(500)
-      .describe("Description of the music to generate (max 500 chars)"),
-    output_name: z.string().describe("Output filename without extension (required)"),
-    instrumental: z
-      .boolean()
-      .optional()
-      .describe("Generate instrumental only (no vocals). Defaults to false"),
-    model: z
-      .enum(["V3_5", "V4", "V4_5", "V4_5PLUS", "V5"])
       .optional()
-      .describe("Suno model version. V5 = latest/best quality. Defaults to V5"),
+      .describe(
+        "Target directory: 'assets' (default), 'out', 'public', or any relative/absolute path"
+      ),
   },
-  async ({ prompt, output_name, instrumental, model }) => {
+  async ({ aid, target_dir }) => {
     try {
-      const apiKey = getApiKey();
-      console.error(`[remotion-media-mcp] Starting music generation: "${prompt.substring(0, 50)}..."`);
-
-      // Create music generation task
-      // Note: callBackUrl is required by the API but we use polling instead
-      const createResponse = await fetch(`${API_BASE}/api/v1/generate`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          prompt,
-          customMode: false,
-          instrumental: instrumental === true,
-          model: model || "V5",
-          callBackUrl: "https://example.com/callback", // Required by API, but we poll for results
-        }),
-      });
-
-      const createResult = await createResponse.json();
-      console.error(`[remotion-media-mcp] API response:`, JSON.stringify(createResult, null, 2));
-
-      if (createResult.code !== 200) {
+      const config = getAirtableConfig();
+      if (!config) {
         return {
-          content: [{ type: "text" as const, text: `Error creating music task: ${createResult.msg || JSON.stringify(createResult)}` }],
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  error: "Airtable not configured",
+                  message:
+                    "Set AIRTABLE_API_KEY, AIRTABLE_BASE_ID, and optionally AIRTABLE_TABLE_NAME environment variables to enable Airtable integration.",
+                },
+                null,
+                2
+              ),
+            },
+          ],
         };
       }
 
-      const taskId = createResult.data?.taskId;
-      console.error(`[remotion-media-mcp] Music task created: ${taskId}`);
-
-      // Poll for completion using music-specific polling
-      const pollResult = await pollMusicTaskStatus(taskId, apiKey);
-
-      if (!pollResult.success) {
+      // Look up record by AID
+      const record = await getAirtableRecordByAid(config, aid);
+      if (!record) {
         return {
-          content: [{ type: "text" as const, text: `Error: ${pollResult.error}` }],
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                { error: "Asset not found", message: `No asset found with AID "${aid}"` },
+                null,
+                2
+              ),
+            },
+          ],
         };
       }
 
-      // Download audio
-      const filename = output_name || `music-${Date.now()}`;
-      const outputPath = path.resolve(process.cwd(), "public", `${filename}.mp3`);
-
-      console.error(`[remotion-media-mcp] Downloading music to ${outputPath}...`);
-      await downloadFile(pollResult.audioUrl!, outputPath);
-      console.error(`[remotion-media-mcp] Music saved successfully!`);
-
-      // Airtable post-generation hook
-      const postResult = await postGenerationHook({
-        remoteUrl: pollResult.audioUrl,
-        localPath: outputPath,
-        filename: `${filename}.mp3`,
-        description: prompt,
-        fileType: "audio",
-        sourceTool: "generate_music",
-        taskId,
-      });
-
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(
-              {
-                success: true,
-                path: outputPath,
-                relativePath: `public/${filename}.mp3`,
-                taskId,
-                audioUrl: pollResult.audioUrl,
-                title: pollResult.title,
-                duration: pollResult.duration,
-                imageUrl: pollResult.imageUrl,
-                ...(postResult?.aid && { aid: postResult.aid }),
-                ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
-                ...(postResult?.assetsPath && { assetsPath: postResult.assetsPath }),
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return {
-        content: [{ type: "text" as const, text: `Error generating music: ${message}` }],
-      };
-    }
-  }
-);
-
-// Tool 6: Generate Speech using ElevenLabs Text-to-Speech
-server.tool(
-  "generate_speech",
-  "Convert text to natural-sounding speech audio (text-to-speech / TTS). Use for: voiceovers, narration, dialogue, announcements, or any spoken content. 21 voices available (default: Eric). Adjustable stability, similarity, and speed. Max 5000 characters. Returns downloaded MP3 path in public/ folder.",
-  {
-    text: z.string().max(5000).describe("Text to convert to speech (max 5000 chars)"),
-    output_name: z.string().describe("Output filename without extension"),
-    voice: z
-      .enum([
-        "Rachel", "Aria", "Roger", "Sarah", "Laura", "Charlie",
-        "George", "Callum", "River", "Liam", "Charlotte", "Alice",
-        "Matilda", "Will", "Jessica", "Eric", "Chris", "Brian",
-        "Daniel", "Lily", "Bill"
-      ])
-      .optional()
-      .describe("Voice to use. Defaults to Eric"),
-    model: z
-      .enum(["multilingual_v2", "turbo_v2_5"])
-      .optional()
-      .describe("TTS model. multilingual = best quality, turbo = faster. Defaults to turbo_v2_5"),
-    stability: z.number().min(0).max(1).optional().describe("Voice stability 0-1. Lower = more expressive. Default 0.5"),
-    similarity_boost: z.number().min(0).max(1).optional().describe("Voice similarity 0-1. Higher = closer to original. Default 0.75"),
-    speed: z.number().min(0.7).max(1.2).optional().describe("Speech speed 0.7-1.2. Default 1.0"),
-  },
-  async ({ text, output_name, voice, model, stability, similarity_boost, speed }) => {
-    try {
-      const apiKey = getApiKey();
-      console.error(`[remotion-media-mcp] Starting speech generation: "${text.substring(0, 50)}..."`);
-
-      // Map model parameter to API model name
-      const modelMap: Record<string, string> = {
-        turbo_v2_5: "elevenlabs/text-to-speech-turbo-2-5",
-        multilingual_v2: "elevenlabs/text-to-speech-multilingual-v2",
-      };
-      const apiModel = modelMap[model || "turbo_v2_5"];
-
-      // Build input for the TTS model
-      const input: Record<string, any> = {
-        text,
-        voice: voice || "Eric",
-        stability: stability ?? 0.5,
-        similarity_boost: similarity_boost ?? 0.75,
-        speed: speed ?? 1.0,
-      };
-
-      // Create speech task using jobs/createTask
-      const createResponse = await fetch(`${API_BASE}/api/v1/jobs/createTask`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: apiModel,
-          input,
-        }),
-      });
-
-      const createResult = await createResponse.json();
-      console.error(`[remotion-media-mcp] API response:`, JSON.stringify(createResult, null, 2));
-
-      if (createResult.code !== 200) {
+      // Get attachment URL
+      const files = record.fields.File;
+      if (!Array.isArray(files) || files.length === 0) {
         return {
-          content: [{ type: "text" as const, text: `Error creating speech task: ${createResult.msg || JSON.stringify(createResult)}` }],
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  error: "No attachment",
+                  message: `Asset ${aid} exists but has no file attachment in Airtable.`,
+                  record: {
+                    aid: record.fields.AID,
+                    filename: record.fields.Filename,
+                    description: record.fields.Description,
+                  },
+                },
+                null,
+                2
+              ),
+            },
+          ],
         };
       }
 
-      const taskId = createResult.data?.taskId;
-      console.error(`[remotion-media-mcp] Speech task created: ${taskId}`);
+      const attachmentUrl = files[0].url;
+      const originalFilename = files[0].filename || record.fields.Filename || "unknown";
+      const recordAid = record.fields.AID || aid;
 
-      // Poll for completion using standard polling
-      const pollResult = await pollTaskStatus(taskId, apiKey);
+      // Build AID-prefixed filename
+      const aidPrefix = `${recordAid}-`;
+      const targetFilename = originalFilename.startsWith(aidPrefix)
+        ? originalFilename
+        : `${aidPrefix}${originalFilename}`;
 
-      if (!pollResult.success) {
-        return {
-          content: [{ type: "text" as const, text: `Error: ${pollResult.error}` }],
-        };
+      // Resolve target directory
+      const dirName = target_dir || "public";
+      let targetDirPath: string;
+      if (path.isAbsolute(dirName)) {
+        targetDirPath = dirName;
+      } else {
+        targetDirPath = path.resolve(process.cwd(), dirName);
       }
 
-      // Extract audio URL from result
-      const resultJson = JSON.parse(pollResult.data.resultJson);
-      const audioUrl = resultJson.resultUrls?.[0] || resultJson.audio_url || resultJson.audioUrl;
-
-      if (!audioUrl) {
-        console.error(`[remotion-media-mcp] Result JSON:`, JSON.stringify(resultJson, null, 2));
-        return {
-          content: [{ type: "text" as const, text: "Error: No audio URL in response" }],
-        };
+      // Ensure directory exists
+      if (!fs.existsSync(targetDirPath)) {
+        fs.mkdirSync(targetDirPath, { recursive: true });
       }
 
-      // Download audio
-      const filename = output_name || `speech-${Date.now()}`;
-      const outputPath = path.resolve(process.cwd(), "public", `${filename}.mp3`);
-
-      console.error(`[remotion-media-mcp] Downloading speech to ${outputPath}...`);
-      await downloadFile(audioUrl, outputPath);
-      console.error(`[remotion-media-mcp] Speech saved successfully!`);
-
-      // Airtable post-generation hook
-      const postResult = await postGenerationHook({
-        remoteUrl: audioUrl,
-        localPath: outputPath,
-        filename: `${filename}.mp3`,
-        description: text,
-        fileType: "audio",
-        sourceTool: "generate_speech",
-        taskId,
-      });
+      const outputPath = path.join(targetDirPath, targetFilename);
+
+      // Download the file
+      console.error(`[remotion-media-mcp] Downloading ${recordAid} to ${outputPath}...`);
+      await downloadFile(attachmentUrl, outputPath);
+      console.error(`[remotion-media-mcp] Downloaded successfully!`);
+      notifyResourcesChanged();
+
+      const relativePath = path.relative(process.cwd(), outputPath);
 
       return {
         content: [
@@ -999,15 +3033,12 @@ server.tool(
             text: JSON.stringify(
               {
                 success: true,
+                aid: recordAid,
                 path: outputPath,
-                relativePath: `public/${filename}.mp3`,
-                taskId,
-                audioUrl,
-                voice: voice || "Eric",
-                model: model || "turbo_v2_5",
-                ...(postResult?.aid && { aid: postResult.aid }),
-                ...(postResult?.recordId && { airtableRecordId: postResult.recordId }),
-                ...(postResult?.assetsPath && { assetsPath: postResult.assetsPath }),
+                relativePath,
+                filename: targetFilename,
+                description: record.fields.Description || "",
+                mimeType: record.fields["MIME Type"] || "",
               },
               null,
               2
@@ -1018,200 +3049,137 @@ server.tool(
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
-        content: [{ type: "text" as const, text: `Error generating speech: ${message}` }],
+        content: [{ type: "text" as const, text: `Error copying from Airtable: ${message}` }],
       };
     }
   }
 );
 
-// Tool 7: Generate subtitles using local Whisper
+// Tool 12: Get Job Status
 server.tool(
-  "generate_subtitles",
-  "Transcribe audio/video to SRT subtitles using local Whisper. Requires whisper-cpp (brew install whisper-cpp) or OpenAI whisper (pip install openai-whisper). Input file must be in public/ folder. Returns path to generated .srt file.",
+  "get_job_status",
+  "Check a generation job by job ID (returned by generation tools called with wait=false, or listed by list_jobs). Checks the task once; if it has finished, downloads the result to public/ and returns the same output the generation tool would have. Returns status pending, completed, or failed.",
   {
-    input_file: z.string().describe("Filename in public/ folder (e.g., 'video.mp4' or 'audio.mp3')"),
-    output_name: z.string().optional().describe("Output filename without extension. Defaults to input filename"),
-    language: z.string().optional().describe("Language code (e.g., 'en', 'es', 'fr'). Auto-detects if not specified"),
-    model: z
-      .enum(["tiny", "base", "small", "medium", "large"])
-      .optional()
-      .describe("Whisper model size. tiny=fastest, large=most accurate. Default: base"),
+    job_id: z.string().describe("Job ID returned by a generation tool or list_jobs"),
   },
-  async ({ input_file, output_name, language, model }) => {
+  async ({ job_id }, extra) => {
     try {
-      // 1. Check whisper is installed
-      const whisperInfo = getWhisperCommand();
-      if (!whisperInfo) {
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(
-                {
-                  error: "Whisper not installed",
-                  message: "This tool requires whisper-cpp or openai-whisper to be installed locally.",
-                  install_instructions: {
-                    mac: "brew install whisper-cpp",
-                    pip: "pip install openai-whisper",
-                  },
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
-      }
-
-      // 2. Verify input file exists in public/
-      const publicDir = path.resolve(process.cwd(), "public");
-      const inputPath = path.join(publicDir, input_file);
-
-      if (!fs.existsSync(inputPath)) {
-        // List available files for helpful error message
-        const availableFiles: string[] = [];
-        if (fs.existsSync(publicDir)) {
-          const files = fs.readdirSync(publicDir);
-          const mediaFiles = files.filter((f) =>
-            /\.(mp4|mp3|wav|webm|mov|m4a|ogg|flac|mkv|avi)$/i.test(f)
-          );
-          availableFiles.push(...mediaFiles);
-        }
-
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(
-                {
-                  error: "File not found",
-                  message: `Could not find '${input_file}' in public/ folder`,
-                  available_files: availableFiles.length > 0 ? availableFiles : "No media files found",
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
-      }
-
-      // 3. Determine output filename
-      const baseName = output_name || path.basename(input_file, path.extname(input_file));
-      const outputSrtPath = path.join(publicDir, `${baseName}.srt`);
-      const modelSize = model || "base";
-
-      console.error(`[remotion-media-mcp] Starting subtitle generation with ${whisperInfo.type}...`);
-      console.error(`[remotion-media-mcp] Input: ${inputPath}`);
-      console.error(`[remotion-media-mcp] Model: ${modelSize}`);
-
-      let command: string;
-      let srtOutputPath: string;
-
-      if (whisperInfo.type === "whisper-cpp") {
-        // whisper.cpp command (whisper-cli)
-        // Look for models in common locations
-        const modelFileName = `ggml-${modelSize}.bin`;
-        const possibleModelPaths = [
-          path.join(process.cwd(), "models", modelFileName),
-          path.join(process.env.HOME || "", ".cache", "whisper", modelFileName),
-          `/opt/homebrew/share/whisper-cpp/models/${modelFileName}`,
-          path.join(process.cwd(), modelFileName),
-        ];
-
-        let modelPath: string | null = null;
-        for (const p of possibleModelPaths) {
-          if (fs.existsSync(p)) {
-            modelPath = p;
-            break;
-          }
-        }
+      const job = getJob(job_id);
+      if (!job) return jobNotFoundResponse(job_id);
 
-        // If model not found, download it
-        if (!modelPath) {
-          const modelsDir = path.join(process.cwd(), "models");
-          if (!fs.existsSync(modelsDir)) {
-            fs.mkdirSync(modelsDir, { recursive: true });
-          }
-          modelPath = path.join(modelsDir, modelFileName);
-
-          console.error(`[remotion-media-mcp] Model not found locally, downloading ${modelSize} model...`);
+      // Already being polled (e.g. resumed at startup), report the journal state
+      if (activeJobs.has(job.id)) return jobStatusResponse(job);
 
-          // Download model from Hugging Face
-          const modelUrl = `https://huggingface.co/ggerganov/whisper.cpp/resolve/main/${modelFileName}`;
-          try {
-            const response = await fetch(modelUrl);
-            if (!response.ok) {
-              throw new Error(`Failed to download model: ${response.statusText}`);
-            }
-            const buffer = await response.arrayBuffer();
-            fs.writeFileSync(modelPath, Buffer.from(buffer));
-            console.error(`[remotion-media-mcp] Model downloaded to ${modelPath}`);
-          } catch (downloadError: any) {
-            return {
-              content: [
-                {
-                  type: "text" as const,
-                  text: JSON.stringify(
-                    {
-                      error: "Model download failed",
-                      message: `Could not download whisper model '${modelSize}'`,
-                      details: downloadError.message,
-                      manual_download: `Download from ${modelUrl} and place in ./models/`,
-                    },
-                    null,
-                    2
-                  ),
-                },
-              ],
-            };
-          }
-        }
+      return jobStatusResponse(await refreshJob(job, 1, 0, { signal: extra.signal }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error checking job: ${message}` }],
+      };
+    }
+  }
+);
 
-        // whisper-cli outputs to <output_prefix>.srt
-        const outputPrefix = path.join(publicDir, baseName);
-        srtOutputPath = `${outputPrefix}.srt`;
+// Tool 13: Wait for Job
+server.tool(
+  "wait_for_job",
+  "Wait for a generation job to finish, then download the result to public/. Returns the job status and result. If the timeout is reached first the job stays pending and can be waited on again.",
+  {
+    job_id: z.string().describe("Job ID returned by a generation tool or list_jobs"),
+    timeout_seconds: z
+      .number()
+      .min(5)
+      .max(900)
+      .optional()
+      .describe("Maximum time to wait in seconds (5-900). Defaults to 900"),
+  },
+  async ({ job_id, timeout_seconds }, extra) => {
+    try {
+      const job = getJob(job_id);
+      if (!job) return jobNotFoundResponse(job_id);
 
-        command = `"${whisperInfo.cmd}" -m "${modelPath}" -f "${inputPath}" -osrt -of "${outputPrefix}"`;
-        if (language) {
-          command += ` -l ${language}`;
-        }
-      } else {
-        // OpenAI whisper command
-        srtOutputPath = outputSrtPath;
+      const intervalMs = getPollIntervalMs();
+      const maxAttempts = Math.ceil(((timeout_seconds ?? 900) * 1000) / intervalMs);
 
-        command = `whisper "${inputPath}" --output_format srt --output_dir "${publicDir}" --model ${modelSize}`;
-        if (language) {
-          command += ` --language ${language}`;
-        }
-      }
+      const context = pollContextFromRequest(extra, `Job ${job.id}`);
+      return jobStatusResponse(await refreshJob(job, maxAttempts, intervalMs, context));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error waiting for job: ${message}` }],
+      };
+    }
+  }
+);
 
-      console.error(`[remotion-media-mcp] Running: ${command}`);
+// Tool 14: List Jobs
+server.tool(
+  "list_jobs",
+  "List generation jobs recorded in the local job journal (.remotion-media/jobs.json), newest first. Shows job ID, tool, status, output name, and the result path once completed.",
+  {
+    status: z
+      .enum(["pending", "completed", "failed"])
+      .optional()
+      .describe("Filter by job status"),
+    max_records: z
+      .number()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Maximum jobs to return (default: 20, max: 100)"),
+  },
+  async ({ status, max_records }) => {
+    try {
+      const jobs = listJobs(status)
+        .slice(0, max_records || 20)
+        .map((j) => ({
+          jobId: j.id,
+          status: j.status,
+          tool: j.tool,
+          outputName: j.outputName,
+          createdAt: j.createdAt,
+          ...(j.result?.relativePath && { relativePath: j.result.relativePath }),
+          ...(j.error && { error: j.error }),
+        }));
 
-      // 4. Run whisper command
-      try {
-        const { stdout, stderr } = await execAsync(command, {
-          timeout: 600000, // 10 minute timeout
-          maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-        });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ success: true, count: jobs.length, jobs }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error listing jobs: ${message}` }],
+      };
+    }
+  }
+);
 
-        if (stderr) {
-          console.error(`[remotion-media-mcp] Whisper stderr: ${stderr}`);
-        }
-        if (stdout) {
-          console.error(`[remotion-media-mcp] Whisper stdout: ${stdout}`);
-        }
-      } catch (execError: any) {
+// Tool 15: Get Asset Info
+server.tool(
+  "get_asset_info",
+  "Read the provenance recorded for a generated file: the tool and full parameters it was generated with, provider model, task ID, remote URL, timestamps and SHA-256 hash. Reports whether the file has changed since it was generated. Works without Airtable.",
+  {
+    file_path: z
+      .string()
+      .describe("Path to the generated file (e.g., 'public/hero.png', 'hero.png', or any relative/absolute path)"),
+  },
+  async ({ file_path }) => {
+    try {
+      const resolvedPath = findLocalFile(file_path);
+      if (!resolvedPath) {
         return {
           content: [
             {
               type: "text" as const,
               text: JSON.stringify(
                 {
-                  error: "Transcription failed",
-                  message: execError.message,
-                  stderr: execError.stderr,
-                  stdout: execError.stdout,
+                  error: "File not found",
+                  message: `Could not find '${file_path}'. Searched in: ${LOCAL_SEARCH_DIRS.join(", ")} directories and as relative/absolute path.`,
                 },
                 null,
                 2
@@ -1221,31 +3189,16 @@ server.tool(
         };
       }
 
-      // For OpenAI whisper, rename output if needed
-      if (whisperInfo.type === "openai-whisper") {
-        const whisperDefaultOutput = path.join(
-          publicDir,
-          `${path.basename(input_file, path.extname(input_file))}.srt`
-        );
-        if (output_name && whisperDefaultOutput !== srtOutputPath) {
-          if (fs.existsSync(whisperDefaultOutput)) {
-            fs.renameSync(whisperDefaultOutput, srtOutputPath);
-          }
-        } else {
-          srtOutputPath = whisperDefaultOutput;
-        }
-      }
-
-      // 5. Verify output exists
-      if (!fs.existsSync(srtOutputPath)) {
+      const metadata = readSidecar(resolvedPath);
+      if (!metadata) {
         return {
           content: [
             {
               type: "text" as const,
               text: JSON.stringify(
                 {
-                  error: "Output not found",
-                  message: `Expected SRT file at ${srtOutputPath} but it was not created`,
+                  error: "No metadata found",
+                  message: `No ${path.basename(getSidecarPath(resolvedPath))} next to '${file_path}'. Only files generated by this server have metadata.`,
                 },
                 null,
                 2
@@ -1255,7 +3208,7 @@ server.tool(
         };
       }
 
-      console.error(`[remotion-media-mcp] Subtitles generated successfully!`);
+      const currentHash = await hashFile(resolvedPath);
 
       return {
         content: [
@@ -1264,11 +3217,11 @@ server.tool(
             text: JSON.stringify(
               {
                 success: true,
-                path: srtOutputPath,
-                relativePath: `public/${path.basename(srtOutputPath)}`,
-                whisperCommand: whisperInfo.type,
-                model: modelSize,
-                language: language || "auto-detected",
+                path: resolvedPath,
+                relativePath: path.relative(process.cwd(), resolvedPath),
+                metadataPath: path.relative(process.cwd(), getSidecarPath(resolvedPath)),
+                modifiedSinceGeneration: currentHash !== metadata.file?.sha256,
+                ...metadata,
               },
               null,
               2
@@ -1279,45 +3232,66 @@ server.tool(
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
-        content: [{ type: "text" as const, text: `Error generating subtitles: ${message}` }],
+        content: [{ type: "text" as const, text: `Error reading asset info: ${message}` }],
       };
     }
   }
 );
 
-// Tool 8: List Assets
+// Tool 16: Regenerate Asset
 server.tool(
-  "list_assets",
-  "Browse assets stored in the asset library. Shows AID, filename, description, file type, and creation date. Supports filtering by file type and pagination. Requires AIRTABLE_API_KEY to be configured.",
+  "regenerate_asset",
+  "Generate a variation of an existing asset (\"the same shot but warmer\"). Loads the original tool and parameters from the asset's .meta.json sidecar (or, for an AID, its Airtable record), applies overrides and a prompt delta, and saves a new version (e.g. hero-v2.png) whose metadata links back to the parent.",
   {
-    file_type: z
-      .enum(["image", "video", "audio", "subtitle", "other"])
+    source: z
+      .string()
+      .describe("Local path of the generated asset (e.g., 'public/hero.png' or 'hero.png') or its AID (e.g., 'A42')"),
+    prompt_delta: z
+      .string()
       .optional()
-      .describe("Filter by file type"),
-    max_records: z
-      .number()
-      .min(1)
-      .max(100)
+      .describe("Text appended to the original prompt, e.g. 'warmer colors, golden hour lighting'"),
+    overrides: z
+      .record(z.any())
       .optional()
-      .describe("Maximum records to return (default: 20, max: 100)"),
-    page_offset: z
+      .describe("Parameters to change, using the original tool's parameter names (e.g., { \"aspect_ratio\": \"9:16\", \"model\": \"veo3\" })"),
+    tool: z
+      .enum(Object.keys(REGENERABLE_TOOLS) as [string, ...string[]])
+      .optional()
+      .describe("Generation tool to use when the source doesn't record one (Airtable audio assets)"),
+    output_name: z
       .string()
       .optional()
-      .describe("Pagination offset from a previous list call"),
+      .describe("Output filename without extension. Defaults to the original output name, saved as the next version"),
+    on_conflict: onConflictParam,
+    wait: waitParam,
+    preview: previewParam,
   },
-  async ({ file_type, max_records, page_offset }) => {
+  async ({ source, prompt_delta, overrides, tool, output_name, on_conflict, wait, preview }, extra) => {
     try {
-      const config = getAirtableConfig();
-      if (!config) {
+      const loaded = await loadRegenerationSource(source);
+      if (loaded.error || !loaded.params) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ error: loaded.error, message: loaded.message }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const toolName = loaded.tool || tool;
+      if (!toolName || !REGENERABLE_TOOLS[toolName]) {
         return {
           content: [
             {
               type: "text" as const,
               text: JSON.stringify(
                 {
-                  error: "Airtable not configured",
-                  message:
-                    "Set AIRTABLE_API_KEY, AIRTABLE_BASE_ID, and optionally AIRTABLE_TABLE_NAME environment variables to enable Airtable integration.",
+                  error: "Unknown generation tool",
+                  message: toolName
+                    ? `'${source}' was generated by ${toolName}, which regenerate_asset can't re-run`
+                    : `Can't tell which tool generated '${source}'. Pass tool to choose one.`,
                 },
                 null,
                 2
@@ -1327,97 +3301,106 @@ server.tool(
         };
       }
 
-      // Build filter formula for file type
-      let filterByFormula: string | undefined;
-      if (file_type) {
-        const mimePrefix: Record<string, string> = {
-          image: "image/",
-          video: "video/",
-          audio: "audio/",
-          subtitle: "text/",
-          other: "",
+      // Start from the original call, never inheriting its conflict mode: regenerating must not replace the parent
+      const { wait: _wait, on_conflict: _onConflict, ...original } = loaded.params;
+      const args: Record<string, any> = { ...original, ...overrides };
+      if (prompt_delta) {
+        const field = toolName === "generate_speech" ? "text" : "prompt";
+        args[field] = args[field] ? `${String(args[field]).trim()}, ${prompt_delta.trim()}` : prompt_delta.trim();
+      }
+      args.output_name = output_name || args.output_name;
+      args.on_conflict = on_conflict || DEFAULT_CONFLICT_MODE;
+
+      // Narration over the single-request limit was generated long-form, and is regenerated the same way
+      const longForm = toolName === "generate_speech" && String(args.text ?? "").length > SPEECH_MAX_CHARS;
+      const { shape, submit } = REGENERABLE_TOOLS[toolName];
+      const parsed = z.object(longForm ? longFormSpeechParams : shape).safeParse(args);
+      if (!parsed.success) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  error: "Invalid parameters",
+                  message: `The merged parameters are not valid for ${toolName}`,
+                  issues: parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`),
+                  params: args,
+                },
+                null,
+                2
+              ),
+            },
+          ],
         };
-        const prefix = mimePrefix[file_type];
-        if (prefix) {
-          filterByFormula = `SEARCH("${prefix}", {MIME Type}) > 0`;
-        }
       }
 
-      const result = await listAirtableRecords(config, {
-        filterByFormula,
-        maxRecords: max_records || 20,
-        offset: page_offset,
-      });
-
-      const assets = result.records.map((r) => ({
-        aid: r.fields.AID || "",
-        filename: r.fields.Filename || "",
-        description: r.fields.Description || "",
-        mimeType: r.fields["MIME Type"] || "",
-        fileType: r.fields.Filename ? detectFileType(r.fields.Filename) : "other",
-        hasAttachment: Array.isArray(r.fields.File) && r.fields.File.length > 0,
-        createdAt: r.createdTime || "",
-      }));
-
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(
+      const { label } = GENERATION_TOOLS[toolName];
+      const context = pollContextFromRequest(extra, `${label[0].toUpperCase()}${label.slice(1)}`);
+
+      if (longForm) {
+        if (wait === false) {
+          return {
+            content: [
               {
-                success: true,
-                count: assets.length,
-                assets,
-                ...(result.offset && { nextPageOffset: result.offset }),
+                type: "text" as const,
+                text: JSON.stringify({ error: "Invalid parameters", message: LONG_FORM_ASYNC_ERROR }, null, 2),
               },
-              null,
-              2
-            ),
-          },
-        ],
-      };
+            ],
+          };
+        }
+        const { chunk_silence_ms, ...speechArgs } = parsed.data as ParamsOf<typeof longFormSpeechParams>;
+        return jobResultResponse(
+          await runLongFormSpeech(speechArgs, chunk_silence_ms ?? DEFAULT_CHUNK_SILENCE_MS, context, loaded.parent)
+        );
+      }
+
+      const submission = await submit(parsed.data);
+      if (submission.job) {
+        submission.job = saveJob({ ...submission.job, parent: loaded.parent });
+      }
+
+      return await runGenerationTool(submission, wait, context, { preview });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
-        content: [{ type: "text" as const, text: `Error listing Airtable assets: ${message}` }],
+        content: [{ type: "text" as const, text: `Error regenerating asset: ${message}` }],
       };
     }
   }
 );
 
-// Tool 9: Backup Asset
+// Tool 17: Select Candidate
 server.tool(
-  "backup_asset",
-  "Back up a local file to the asset library. Supports files from assets/, out/, public/, or any relative path. Creates a record with metadata and file attachment, assigns an AID, and optionally renames the local file with the AID prefix. Requires AIRTABLE_API_KEY to be configured.",
+  "select_candidate",
+  "Promote one of the candidates from generate_image with num_images to the canonical file (e.g. public/hero-2.png becomes public/hero.png, with its metadata) and delete the other candidates in the same set.",
   {
-    file_path: z
+    candidate: z
       .string()
-      .describe(
-        "Path to the local file (e.g., 'assets/hero.png', 'out/video.mp4', 'public/music.mp3', or any relative/absolute path)"
-      ),
-    description: z.string().describe("Description of the asset"),
-    file_type: z
-      .enum(["image", "video", "audio", "subtitle", "other"])
+      .describe("Path of the chosen candidate as returned by generate_image (e.g., 'public/hero-2.png' or 'hero-2.png')"),
+    keep_others: z
+      .boolean()
       .optional()
-      .describe("File type (auto-detected from extension if not specified)"),
-    remote_url: z
-      .string()
+      .describe("Keep the other candidates instead of deleting them. Defaults to false"),
+    on_conflict: z
+      .enum(CONFLICT_MODES)
       .optional()
-      .describe("Optional remote URL for the file (used as attachment instead of uploading)"),
+      .describe(
+        "What to do if the canonical file already exists: version (default) saves as <name>-v2, -v3, ...; suffix appends a timestamp; overwrite replaces it; error refuses"
+      ),
   },
-  async ({ file_path, description, file_type, remote_url }) => {
+  async ({ candidate, keep_others, on_conflict }) => {
     try {
-      const config = getAirtableConfig();
-      if (!config) {
+      const candidatePath = findLocalFile(candidate);
+      if (!candidatePath) {
         return {
           content: [
             {
               type: "text" as const,
               text: JSON.stringify(
                 {
-                  error: "Airtable not configured",
-                  message:
-                    "Set AIRTABLE_API_KEY, AIRTABLE_BASE_ID, and optionally AIRTABLE_TABLE_NAME environment variables to enable Airtable integration.",
+                  error: "File not found",
+                  message: `Could not find '${candidate}'. Searched in: ${LOCAL_SEARCH_DIRS.join(", ")} directories and as relative/absolute path.`,
                 },
                 null,
                 2
@@ -1427,39 +3410,17 @@ server.tool(
         };
       }
 
-      // Resolve the file path - search common directories
-      let resolvedPath: string | null = null;
-      const searchDirs = ["public", "out"];
-      const cwd = process.cwd();
-
-      if (path.isAbsolute(file_path)) {
-        if (fs.existsSync(file_path)) resolvedPath = file_path;
-      } else {
-        // Try the path as-is first (relative to cwd)
-        const directPath = path.resolve(cwd, file_path);
-        if (fs.existsSync(directPath)) {
-          resolvedPath = directPath;
-        } else {
-          // Search in common directories
-          for (const dir of searchDirs) {
-            const candidate = path.resolve(cwd, dir, path.basename(file_path));
-            if (fs.existsSync(candidate)) {
-              resolvedPath = candidate;
-              break;
-            }
-          }
-        }
-      }
-
-      if (!resolvedPath) {
+      const metadata = readSidecar(candidatePath);
+      const set = metadata?.extras?.candidate;
+      if (!metadata || !set?.group || !set?.setId) {
         return {
           content: [
             {
               type: "text" as const,
               text: JSON.stringify(
                 {
-                  error: "File not found",
-                  message: `Could not find '${file_path}'. Searched in: ${searchDirs.join(", ")} directories and as relative/absolute path.`,
+                  error: "Not a candidate",
+                  message: `'${candidate}' was not generated as one of several candidates (generate_image with num_images)`,
                 },
                 null,
                 2
@@ -1469,50 +3430,43 @@ server.tool(
         };
       }
 
-      const filename = path.basename(resolvedPath);
-      const detectedType = file_type || detectFileType(filename);
-      const mimeType = getMimeType(filename);
-
-      // Create Airtable record
-      const record = await createAirtableRecord(config, {
-        description,
-        fileUrl: remote_url,
-        filename,
-        mimeType,
-      });
-
-      if (!record) {
+      const dir = path.dirname(candidatePath);
+      const extension = path.extname(candidatePath).slice(1);
+      const resolved = resolveOutputPath(dir, set.group, extension, on_conflict || DEFAULT_CONFLICT_MODE);
+      if (!resolved.path) {
         return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(
-                { error: "Failed to create Airtable record" },
-                null,
-                2
-              ),
-            },
-          ],
+          content: [{ type: "text" as const, text: JSON.stringify({ error: "File exists", message: resolved.error }, null, 2) }],
         };
       }
 
-      const { aid, recordId } = record;
-
-      // If no remote URL, upload the file directly
-      if (!remote_url) {
-        await uploadAttachmentToAirtable(config, recordId, resolvedPath, filename);
+      const selectedPath = resolved.path;
+      let metadataPath: string;
+      try {
+        fs.renameSync(candidatePath, selectedPath);
+        fs.rmSync(getSidecarPath(candidatePath), { force: true });
+        // The selected file is no longer a candidate, and regenerating it should target the canonical name
+        const { candidate: _candidate, ...extras } = metadata.extras || {};
+        metadataPath = await writeSidecar(selectedPath, {
+          ...metadata,
+          params: { ...metadata.params, output_name: set.group },
+          extras: { ...extras, selectedCandidate: set },
+        });
+      } finally {
+        releaseOutputPath(selectedPath);
       }
 
-      // Rename file with AID prefix if it's in assets/ and not already prefixed
-      let renamedTo: string | undefined;
-      const parentDir = path.basename(path.dirname(resolvedPath));
-      if (parentDir === "assets" && aid && !/^A\d+-/.test(filename)) {
-        const newFilename = `${aid}-${filename}`;
-        const newPath = path.join(path.dirname(resolvedPath), newFilename);
-        fs.renameSync(resolvedPath, newPath);
-        renamedTo = newFilename;
-        console.error(`[remotion-media-mcp] Renamed ${filename} → ${newFilename}`);
+      const others = findAssets(dir, (m) => m.extras?.candidate?.setId === set.setId).filter(
+        (other) => other.filePath !== selectedPath
+      );
+      if (!keep_others) {
+        for (const other of others) {
+          fs.rmSync(other.filePath, { force: true });
+          fs.rmSync(getSidecarPath(other.filePath), { force: true });
+        }
       }
+      notifyResourcesChanged();
+
+      console.error(`[remotion-media-mcp] Selected candidate ${candidatePath} as ${selectedPath}`);
 
       return {
         content: [
@@ -1521,11 +3475,11 @@ server.tool(
             text: JSON.stringify(
               {
                 success: true,
-                aid,
-                recordId,
-                filename,
-                fileType: detectedType,
-                ...(renamedTo && { renamedTo }),
+                path: selectedPath,
+                relativePath: path.relative(process.cwd(), selectedPath),
+                candidate: set.index,
+                metadataPath: path.relative(process.cwd(), metadataPath),
+                [keep_others ? "kept" : "removed"]: others.map((o) => path.relative(process.cwd(), o.filePath)),
               },
               null,
               2
@@ -1536,40 +3490,176 @@ server.tool(
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
-        content: [{ type: "text" as const, text: `Error backing up to Airtable: ${message}` }],
+        content: [{ type: "text" as const, text: `Error selecting candidate: ${message}` }],
       };
     }
   }
 );
 
-// Tool 10: Get Asset
+// Tool 18: Extend Music using Suno
 server.tool(
-  "get_asset",
-  "Pull an asset from the library by its AID. Downloads the attachment and saves it locally with the AID-prefixed filename. Requires AIRTABLE_API_KEY to be configured.",
+  "extend_music",
+  "Lengthen a track made by generate_music (or cover_music/extend_music) by continuing it from a timestamp, e.g. to fit a 90-second composition. Keeps the source's lyrics and style unless custom settings (style, title, lyrics) are given. Suno returns two extended tracks; both are saved. Returns downloaded MP3 paths in public/ folder.",
+  { ...extendMusicParams, wait: waitParam },
+  async ({ wait, ...args }, extra) => {
+    try {
+      const context = pollContextFromRequest(extra, "Music");
+      return await runGenerationTool(await submitExtendMusic(args), wait, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error extending music: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 19: Cover Music using Suno
+server.tool(
+  "cover_music",
+  "Create a cover or remix of an existing track in a new style. The track can be a URL, a local file (uploaded automatically) or an AID. Describe the new version in the prompt, or use custom mode (style, title, lyrics) for full control. Suno returns two tracks; both are saved. Returns downloaded MP3 paths in public/ folder.",
+  { ...coverMusicParams, wait: waitParam },
+  async ({ wait, ...args }, extra) => {
+    try {
+      const context = pollContextFromRequest(extra, "Music");
+      return await runGenerationTool(await submitCoverMusic(args), wait, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error covering music: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 20: Separate Stems using Suno
+server.tool(
+  "separate_stems",
+  "Split a track made by generate_music (or cover_music/extend_music) into stems. Use for: ducking music under voiceover with the instrumental, isolating vocals, or remixing. type=vocals gives vocals + instrumental; type=stems gives up to 12 stems (drums, bass, guitar, ...). Saves each as <output_name>-<stem>.mp3 in public/ folder.",
+  { ...separateStemsParams, wait: waitParam },
+  async ({ wait, ...args }, extra) => {
+    try {
+      const context = pollContextFromRequest(extra, "Stems");
+      return await runGenerationTool(await submitSeparateStems(args), wait, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error separating stems: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 21: List Voices
+server.tool(
+  "list_voices",
+  "List voices for generate_speech with gender, accent, age, style and use case. Without ELEVENLABS_API_KEY this is the built-in presets (usable by name); with it, every voice in the ElevenLabs account, including cloned and Voice Library voices with preview URLs (usable by voice ID).",
   {
-    aid: z
+    gender: z.string().optional().describe("Only voices with this gender (e.g., 'female', 'male')"),
+    accent: z.string().optional().describe("Only voices with this accent (e.g., 'british', 'american')"),
+    search: z
       .string()
-      .describe("The AID of the asset to download (e.g., 'A42')"),
-    target_dir: z
+      .optional()
+      .describe("Only voices whose name, description or use case contains this text (e.g., 'narration', 'warm')"),
+  },
+  async ({ gender, accent, search }) => {
+    try {
+      const { voices, source, warning } = await listVoices();
+      const matches = (value: string | undefined, wanted: string | undefined) =>
+        !wanted || (value || "").toLowerCase() === wanted.toLowerCase();
+      const term = search?.toLowerCase();
+
+      const filtered = voices.filter(
+        (v) =>
+          matches(v.gender, gender) &&
+          matches(v.accent, accent) &&
+          (!term || [v.name, v.description, v.useCase].some((f) => f?.toLowerCase().includes(term)))
+      );
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                success: true,
+                source,
+                count: filtered.length,
+                voices: filtered,
+                ...(warning && { warning }),
+                usage: "Pass a preset name or any voiceId as generate_speech's voice parameter.",
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error listing voices: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 22: Generate Dialogue
+server.tool(
+  "generate_dialogue",
+  "Turn a multi-speaker script into one dialogue track. Each {speaker, text} line is spoken with that speaker's voice and settings from speakers (see list_voices), saved on its own as <name>-line-01.mp3, ..., and joined into <name>.mp3 with gap_ms of silence between lines. Also writes <name>.timing.json with each line's speaker, startMs and endMs, for lip flaps or caption highlighting in Remotion. Each line's task is journaled as a <name>-line-NN generate_speech job, so if the call fails, lines already generated can still be collected with wait_for_job. Requires ffmpeg and ffprobe.",
+  dialogueParams,
+  async (args, extra) => {
+    try {
+      const context = pollContextFromRequest(extra, "Dialogue");
+      return jobResultResponse(await runDialogue(args, context));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error generating dialogue: ${message}` }],
+      };
+    }
+  }
+);
+
+// Tool 23: Translate Subtitles
+server.tool(
+  "translate_subtitles",
+  "Translate an SRT or WebVTT file in public/ into other languages, keeping every cue's timing. Cue text goes through the configured translator: an OpenAI-compatible endpoint (TRANSLATION_BASE_URL / TRANSLATION_API_KEY, which also covers local models served by Ollama or LM Studio) or a local program (TRANSLATION_COMMAND). Writes <name>.<lang>.srt (or .vtt) per language.",
+  {
+    input_file: z.string().describe("SRT or VTT filename in public/ folder (e.g., 'voice.srt')"),
+    target_languages: z
+      .array(z.string().regex(LANGUAGE_CODE, "Expected a language code like 'es' or 'pt-BR'"))
+      .min(1)
+      .max(20)
+      .describe("Language codes to translate into (e.g., ['es', 'de', 'pt-BR'])"),
+    source_language: z
       .string()
       .optional()
-      .describe(
-        "Target directory: 'assets' (default), 'out', 'public', or any relative/absolute path"
-      ),
+      .describe("Language code of the input. Left to the translator to detect if not specified"),
+    output_name: z
+      .string()
+      .optional()
+      .describe("Output filename without language and extension. Defaults to the input filename"),
+    output_format: z.enum(["srt", "vtt"]).optional().describe("Format of the translated files. Default: srt"),
+    on_conflict: onConflictParam,
   },
-  async ({ aid, target_dir }) => {
+  async ({ input_file, target_languages, source_language, output_name, output_format, on_conflict }) => {
     try {
-      const config = getAirtableConfig();
-      if (!config) {
+      const translator = getTranslator();
+      if (!translator) {
         return {
           content: [
             {
               type: "text" as const,
               text: JSON.stringify(
                 {
-                  error: "Airtable not configured",
-                  message:
-                    "Set AIRTABLE_API_KEY, AIRTABLE_BASE_ID, and optionally AIRTABLE_TABLE_NAME environment variables to enable Airtable integration.",
+                  error: "Translator not configured",
+                  message: "This tool needs a translator to send cue text to.",
+                  setup: {
+                    llm: "Set TRANSLATION_API_KEY (and TRANSLATION_MODEL) for OpenAI, or TRANSLATION_BASE_URL for another OpenAI-compatible endpoint such as http://localhost:11434/v1 (Ollama)",
+                    command: "Set TRANSLATION_COMMAND to a program that reads {source_language, target_language, texts} JSON on stdin and prints a JSON array of translations",
+                  },
                 },
                 null,
                 2
@@ -1579,15 +3669,22 @@ server.tool(
         };
       }
 
-      // Look up record by AID
-      const record = await getAirtableRecordByAid(config, aid);
-      if (!record) {
+      const publicDir = path.resolve(process.cwd(), "public");
+      const inputPath = path.join(publicDir, input_file);
+      if (!fs.existsSync(inputPath)) {
+        const availableFiles = fs.existsSync(publicDir)
+          ? fs.readdirSync(publicDir).filter((f) => /\.(srt|vtt)$/i.test(f))
+          : [];
         return {
           content: [
             {
               type: "text" as const,
               text: JSON.stringify(
-                { error: "Asset not found", message: `No asset found with AID "${aid}"` },
+                {
+                  error: "File not found",
+                  message: `Could not find '${input_file}' in public/ folder`,
+                  available_files: availableFiles.length > 0 ? availableFiles : "No subtitle files found",
+                },
                 null,
                 2
               ),
@@ -1596,63 +3693,85 @@ server.tool(
         };
       }
 
-      // Get attachment URL
-      const files = record.fields.File;
-      if (!Array.isArray(files) || files.length === 0) {
+      const cues = parseSubtitles(fs.readFileSync(inputPath, "utf-8"));
+      if (cues.length === 0) {
         return {
           content: [
             {
               type: "text" as const,
-              text: JSON.stringify(
-                {
-                  error: "No attachment",
-                  message: `Asset ${aid} exists but has no file attachment in Airtable.`,
-                  record: {
-                    aid: record.fields.AID,
-                    filename: record.fields.Filename,
-                    description: record.fields.Description,
-                  },
-                },
-                null,
-                2
-              ),
+              text: JSON.stringify({ error: "No cues found", message: `'${input_file}' has no SRT or WebVTT cues` }, null, 2),
             },
           ],
         };
       }
 
-      const attachmentUrl = files[0].url;
-      const originalFilename = files[0].filename || record.fields.Filename || "unknown";
-      const recordAid = record.fields.AID || aid;
-
-      // Build AID-prefixed filename
-      const aidPrefix = `${recordAid}-`;
-      const targetFilename = originalFilename.startsWith(aidPrefix)
-        ? originalFilename
-        : `${aidPrefix}${originalFilename}`;
+      const baseName = output_name || path.basename(input_file, path.extname(input_file));
+      const format = output_format || "srt";
+      console.error(
+        `[remotion-media-mcp] Translating ${cues.length} cues into ${target_languages.join(", ")} with ${translator.name}...`
+      );
+
+      // Languages are translated one after another; a failed language doesn't stop the others
+      const translations: Record<string, any>[] = [];
+      for (const language of [...new Set(target_languages)]) {
+        let outputPath: string | undefined;
+        try {
+          const resolved = resolveOutputPath(publicDir, `${baseName}.${language}`, format, on_conflict);
+          if (!resolved.path) {
+            translations.push({ language, success: false, error: resolved.error });
+            continue;
+          }
+          outputPath = resolved.path;
+
+          const texts: string[] = [];
+          for (let i = 0; i < cues.length; i += TRANSLATION_BATCH_SIZE) {
+            const batch = cues.slice(i, i + TRANSLATION_BATCH_SIZE).map((cue) => cue.text);
+            texts.push(
+              ...(await translator.translate({ texts: batch, targetLanguage: language, sourceLanguage: source_language }))
+            );
+          }
 
-      // Resolve target directory
-      const dirName = target_dir || "public";
-      let targetDirPath: string;
-      if (path.isAbsolute(dirName)) {
-        targetDirPath = dirName;
-      } else {
-        targetDirPath = path.resolve(process.cwd(), dirName);
-      }
+          // Only the text changes; every cue keeps its timing, identifier and settings
+          const translated = cues.map((cue, i) => ({ ...cue, text: texts[i] }));
+          const partialPath = partialPathFor(outputPath);
+          try {
+            fs.writeFileSync(partialPath, format === "vtt" ? formatVtt(translated) : formatSrt(translated));
+            fs.renameSync(partialPath, outputPath);
+          } finally {
+            fs.rmSync(partialPath, { force: true });
+          }
 
-      // Ensure directory exists
-      if (!fs.existsSync(targetDirPath)) {
-        fs.mkdirSync(targetDirPath, { recursive: true });
+          const metadataPath = await writeSidecar(outputPath, {
+            tool: "translate_subtitles",
+            params: { input_file, target_languages: [language], source_language, output_name, output_format, on_conflict },
+            provider: translator.name,
+            model: translator.model,
+            extras: { source: `public/${input_file}`, language, cueCount: cues.length },
+          });
+          console.error(`[remotion-media-mcp] Translated subtitles saved to ${outputPath}`);
+
+          const filename = path.basename(outputPath);
+          translations.push({
+            language,
+            success: true,
+            path: outputPath,
+            relativePath: `public/${filename}`,
+            ...(filename !== `${baseName}.${language}.${format}` && {
+              requestedPath: `public/${baseName}.${language}.${format}`,
+            }),
+            metadataPath: path.relative(process.cwd(), metadataPath),
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`[remotion-media-mcp] Translation to ${language} failed: ${message}`);
+          translations.push({ language, success: false, error: message });
+        } finally {
+          if (outputPath) releaseOutputPath(outputPath);
+        }
       }
 
-      const outputPath = path.join(targetDirPath, targetFilename);
-
-      // Download the file
-      console.error(`[remotion-media-mcp] Downloading ${recordAid} to ${outputPath}...`);
-      await downloadFile(attachmentUrl, outputPath);
-      console.error(`[remotion-media-mcp] Downloaded successfully!`);
-
-      const relativePath = path.relative(process.cwd(), outputPath);
+      const succeeded = translations.filter((t) => t.success).length;
+      if (succeeded > 0) notifyResourcesChanged();
 
       return {
         content: [
@@ -1660,13 +3779,13 @@ server.tool(
             type: "text" as const,
             text: JSON.stringify(
               {
-                success: true,
-                aid: recordAid,
-                path: outputPath,
-                relativePath,
-                filename: targetFilename,
-                description: record.fields.Description || "",
-                mimeType: record.fields["MIME Type"] || "",
+                success: succeeded > 0,
+                translator: translator.name,
+                ...(translator.model && { model: translator.model }),
+                cueCount: cues.length,
+                succeeded,
+                failed: translations.length - succeeded,
+                translations,
               },
               null,
               2
@@ -1677,7 +3796,7 @@ server.tool(
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
-        content: [{ type: "text" as const, text: `Error copying from Airtable: ${message}` }],
+        content: [{ type: "text" as const, text: `Error translating subtitles: ${message}` }],
       };
     }
   }
@@ -1685,6 +3804,8 @@ server.tool(
 
 // Start the server
 async function main() {
+  await loadProviderModules();
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
@@ -1693,6 +3814,14 @@ async function main() {
     `[remotion-media-mcp] Airtable integration: ${airtableConfig ? "enabled" : "disabled"}`
   );
   console.error("[remotion-media-mcp] Server started");
+
+  // Finish any generations interrupted by a previous shutdown, without blocking startup
+  resumePendingJobs().catch((error) => {
+    console.error(
+      "[remotion-media-mcp] Job resume error:",
+      error instanceof Error ? error.message : error
+    );
+  });
 }
 
 main().catch((error) => {
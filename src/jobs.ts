@@ -0,0 +1,118 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import type { ConflictMode } from "./output-paths.js";
+import type { AssetParent } from "./sidecar.js";
+
+export type JobStatus = "pending" | "completed" | "failed";
+
+export interface JobRecord {
+  id: string;
+  tool: string;
+  // Media provider that created the task (see providers.ts)
+  provider?: string;
+  taskId: string;
+  // Provider-side model name, when the provider reports it
+  model?: string;
+  status: JobStatus;
+  outputName: string;
+  // How to name the output if public/<outputName>.<ext> already exists when the job finishes
+  onConflict?: ConflictMode;
+  description: string;
+  // Tool arguments the job was created with
+  params?: Record<string, any>;
+  extras?: Record<string, any>;
+  // Set for jobs created by regenerate_asset
+  parent?: AssetParent;
+  result?: Record<string, any>;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Jobs are stored per project, next to public/
+export function getJobsFilePath(): string {
+  return path.resolve(process.cwd(), ".remotion-media", "jobs.json");
+}
+
+export function loadJobs(): JobRecord[] {
+  const filePath = getJobsFilePath();
+  if (!fs.existsSync(filePath)) return [];
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error(
+      `[remotion-media-mcp] Could not read job file ${filePath}:`,
+      error instanceof Error ? error.message : error
+    );
+    return [];
+  }
+}
+
+// Written to a temporary file and renamed over jobs.json, so a crash mid-write never leaves a
+// truncated journal (which would read as no jobs at all)
+function writeJobs(jobs: JobRecord[]): void {
+  const filePath = getJobsFilePath();
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const tempPath = path.join(dir, `.jobs.${process.pid}.${randomUUID().slice(0, 8)}.tmp`);
+  try {
+    fs.writeFileSync(tempPath, JSON.stringify(jobs, null, 2));
+    fs.renameSync(tempPath, filePath);
+  } finally {
+    fs.rmSync(tempPath, { force: true });
+  }
+}
+
+export function buildJob(params: {
+  tool: string;
+  provider?: string;
+  taskId: string;
+  model?: string;
+  outputName: string;
+  onConflict?: ConflictMode;
+  description: string;
+  params?: Record<string, any>;
+  extras?: Record<string, any>;
+  parent?: AssetParent;
+}): JobRecord {
+  const now = new Date().toISOString();
+  return {
+    id: `job-${randomUUID().slice(0, 8)}`,
+    ...params,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Insert or replace a job record by ID
+export function saveJob(job: JobRecord): JobRecord {
+  const jobs = loadJobs();
+  const saved = { ...job, updatedAt: new Date().toISOString() };
+  const index = jobs.findIndex((j) => j.id === job.id);
+
+  if (index >= 0) {
+    jobs[index] = saved;
+  } else {
+    jobs.push(saved);
+  }
+
+  writeJobs(jobs);
+  return saved;
+}
+
+export function getJob(id: string): JobRecord | null {
+  return loadJobs().find((j) => j.id === id) || null;
+}
+
+export function listJobs(status?: JobStatus): JobRecord[] {
+  return loadJobs()
+    .filter((j) => !status || j.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
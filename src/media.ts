@@ -0,0 +1,264 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { detectFileType, getMimeType } from "./airtable.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface MediaProbe {
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface MediaValidation {
+  valid: boolean;
+  error?: string;
+  // Everything that was checked, returned with the error so the caller can see why
+  details: {
+    expectedMimeType: string;
+    bytes: number;
+    contentLength?: number;
+    contentType?: string;
+    detectedFormat?: string;
+    probe?: MediaProbe;
+  };
+}
+
+// Leading bytes of each format; null entries are wildcards
+const SIGNATURES: { format: string; offset?: number; bytes: (number | null)[] }[] = [
+  { format: "png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { format: "jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { format: "gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { format: "webp", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { format: "wav", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45] },
+  { format: "mp4", offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+  { format: "webm", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { format: "mp3", bytes: [0x49, 0x44, 0x33] },
+  { format: "ogg", bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { format: "flac", bytes: [0x66, 0x4c, 0x61, 0x43] },
+];
+
+// Formats accepted for each MIME type (mp4/mov/m4a all use the ISO "ftyp" box)
+const ACCEPTED_FORMATS: Record<string, string[]> = {
+  "image/png": ["png"],
+  "image/jpeg": ["jpeg"],
+  "image/gif": ["gif"],
+  "image/webp": ["webp"],
+  "video/mp4": ["mp4"],
+  "video/quicktime": ["mp4"],
+  "video/webm": ["webm"],
+  "audio/mpeg": ["mp3", "mpeg-audio"],
+  "audio/mp4": ["mp4"],
+  "audio/wav": ["wav"],
+  "audio/ogg": ["ogg"],
+  "audio/flac": ["flac"],
+  "audio/aac": ["mpeg-audio", "mp4"],
+};
+
+export function sniffFormat(header: Buffer): string | undefined {
+  for (const sig of SIGNATURES) {
+    const offset = sig.offset || 0;
+    if (header.length < offset + sig.bytes.length) continue;
+    if (sig.bytes.every((b, i) => b === null || header[offset + i] === b)) {
+      return sig.format;
+    }
+  }
+
+  // Raw MPEG audio / ADTS AAC frames start with an 11-bit sync word
+  if (header.length >= 2 && header[0] === 0xff && (header[1] & 0xe0) === 0xe0) {
+    return "mpeg-audio";
+  }
+
+  const text = header.toString("utf-8", 0, Math.min(header.length, 256)).trimStart().toLowerCase();
+  if (text.startsWith("<!doctype html") || text.startsWith("<html") || text.startsWith("<?xml")) {
+    return "html";
+  }
+  if (text.startsWith("{") || text.startsWith("[")) {
+    return "json";
+  }
+  return undefined;
+}
+
+// Read duration and dimensions with ffprobe. Returns null when ffprobe isn't installed.
+// FFPROBE_PATH points at a specific binary.
+export async function probeMedia(filePath: string): Promise<MediaProbe | null> {
+  const ffprobe = process.env.FFPROBE_PATH || "ffprobe";
+
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      ffprobe,
+      ["-v", "error", "-show_entries", "format=duration:stream=codec_type,width,height", "-of", "json", filePath],
+      { timeout: 30000 }
+    ));
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    // ffprobe ran but couldn't parse the file
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(stdout);
+    const visual = (parsed.streams || []).find((s: any) => s.codec_type === "video");
+    const duration = Number(parsed.format?.duration);
+    return {
+      ...(Number.isFinite(duration) && { durationSeconds: duration }),
+      ...(visual?.width && { width: visual.width, height: visual.height }),
+    };
+  } catch {
+    return {};
+  }
+}
+
+// Check a downloaded file against the type its extension promises
+// (filename overrides the name the type is taken from, e.g. for a partial download file)
+export async function validateMediaFile(
+  filePath: string,
+  download: { contentLength?: number; contentType?: string } = {},
+  filename: string = path.basename(filePath)
+): Promise<MediaValidation> {
+  const expectedMimeType = getMimeType(filename);
+  const fileType = detectFileType(filename);
+  const bytes = fs.statSync(filePath).size;
+
+  const details: MediaValidation["details"] = {
+    expectedMimeType,
+    bytes,
+    ...(download.contentLength !== undefined && { contentLength: download.contentLength }),
+    ...(download.contentType && { contentType: download.contentType }),
+  };
+  const fail = (error: string): MediaValidation => ({ valid: false, error, details });
+
+  if (bytes === 0) {
+    return fail("File is empty");
+  }
+  if (download.contentLength !== undefined && download.contentLength !== bytes) {
+    return fail(`Download truncated: received ${bytes} of ${download.contentLength} bytes`);
+  }
+
+  const header = Buffer.alloc(Math.min(bytes, 512));
+  const fd = fs.openSync(filePath, "r");
+  try {
+    fs.readSync(fd, header, 0, header.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const detectedFormat = sniffFormat(header);
+  if (detectedFormat) details.detectedFormat = detectedFormat;
+
+  const accepted = ACCEPTED_FORMATS[expectedMimeType];
+  if (accepted && !accepted.includes(detectedFormat || "")) {
+    return fail(
+      `Expected ${expectedMimeType} but the file content looks like ${detectedFormat || "an unknown format"}`
+    );
+  }
+
+  if (fileType !== "image" && fileType !== "video" && fileType !== "audio") {
+    return { valid: true, details };
+  }
+
+  const probe = await probeMedia(filePath);
+  if (!probe) {
+    return { valid: true, details };
+  }
+  details.probe = probe;
+
+  if (fileType !== "image" && !(probe.durationSeconds && probe.durationSeconds > 0)) {
+    return fail("ffprobe could not read a duration from the file");
+  }
+  if (fileType !== "audio" && !(probe.width && probe.height)) {
+    return fail("ffprobe could not read dimensions from the file");
+  }
+
+  return { valid: true, details };
+}
+
+export interface MediaPreview {
+  // base64-encoded image
+  data: string;
+  mimeType: string;
+}
+
+const PREVIEW_MAX_DIMENSION = 512;
+// Without ffmpeg an image is only returned as-is if it's this small
+const MAX_UNSCALED_PREVIEW_BYTES = 1024 * 1024;
+
+// Downscaled JPEG of an image, or a poster frame of a video, for returning as MCP image content.
+// Uses ffmpeg (FFMPEG_PATH points at a specific binary).
+export async function createPreview(filePath: string): Promise<{ preview?: MediaPreview; error?: string }> {
+  const fileType = detectFileType(filePath);
+  if (fileType !== "image" && fileType !== "video") {
+    return { error: "Previews are only available for images and videos" };
+  }
+
+  const ffmpeg = process.env.FFMPEG_PATH || "ffmpeg";
+  const previewPath = path.join(os.tmpdir(), `remotion-media-preview-${randomUUID().slice(0, 8)}.jpg`);
+  const scale = `scale='min(${PREVIEW_MAX_DIMENSION},iw)':'min(${PREVIEW_MAX_DIMENSION},ih)':force_original_aspect_ratio=decrease`;
+
+  try {
+    await execFileAsync(
+      ffmpeg,
+      [
+        "-v", "error", "-y",
+        "-i", filePath,
+        // thumbnail picks a representative frame from the start of a video
+        "-vf", fileType === "video" ? `thumbnail,${scale}` : scale,
+        "-frames:v", "1", "-q:v", "4",
+        previewPath,
+      ],
+      { timeout: 60000 }
+    );
+    return { preview: { data: fs.readFileSync(previewPath).toString("base64"), mimeType: "image/jpeg" } };
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") {
+      return { error: `ffmpeg could not create a preview: ${error?.stderr?.trim() || error?.message || error}` };
+    }
+
+    // No ffmpeg: small images can still be shown unscaled
+    if (fileType === "image" && fs.statSync(filePath).size <= MAX_UNSCALED_PREVIEW_BYTES) {
+      return { preview: { data: fs.readFileSync(filePath).toString("base64"), mimeType: getMimeType(filePath) } };
+    }
+    return { error: `ffmpeg is required for ${fileType === "video" ? "video poster frames" : "previews of large images"}` };
+  } finally {
+    fs.rmSync(previewPath, { force: true });
+  }
+}
+
+// Join audio files end to end into one MP3 with gapMs of silence between them (ffmpeg)
+export async function concatAudio(inputs: string[], outputPath: string, gapMs = 0): Promise<void> {
+  const ffmpeg = process.env.FFMPEG_PATH || "ffmpeg";
+  const gapSeconds = (gapMs / 1000).toFixed(3);
+
+  // Pad every input but the last with silence, then concatenate them
+  const pads = inputs.map((_, i) =>
+    i < inputs.length - 1 && gapMs > 0 ? `[${i}:a]apad=pad_dur=${gapSeconds}[a${i}]` : `[${i}:a]anull[a${i}]`
+  );
+  const filter = `${pads.join(";")};${inputs.map((_, i) => `[a${i}]`).join("")}concat=n=${inputs.length}:v=0:a=1[out]`;
+
+  try {
+    await execFileAsync(
+      ffmpeg,
+      [
+        "-v", "error", "-y",
+        ...inputs.flatMap((input) => ["-i", input]),
+        "-filter_complex", filter,
+        "-map", "[out]",
+        "-c:a", "libmp3lame", "-q:a", "2",
+        // The output may be a partial file without an .mp3 extension
+        "-f", "mp3",
+        outputPath,
+      ],
+      { timeout: 10 * 60 * 1000 }
+    );
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      throw new Error("ffmpeg is required to join audio (install it or set FFMPEG_PATH)");
+    }
+    throw new Error(`ffmpeg could not join audio: ${error?.stderr?.trim() || error?.message || error}`);
+  }
+}
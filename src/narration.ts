@@ -0,0 +1,120 @@
+// Long-form speech and dialogue: audio generated in pieces and joined locally, with a manifest
+// of where each piece lands in the final track.
+
+export interface NarrationChunkTiming {
+  index: number;
+  text: string;
+  startMs: number;
+  endMs: number;
+  taskId?: string;
+}
+
+export interface NarrationManifest {
+  audio: string;
+  durationMs: number;
+  silenceMs: number;
+  voice: string;
+  model: string;
+  chunks: NarrationChunkTiming[];
+}
+
+export interface DialogueLineTiming {
+  index: number;
+  speaker: string;
+  voice: string;
+  text: string;
+  // The line on its own, relative to the project root
+  file: string;
+  startMs: number;
+  endMs: number;
+  taskId?: string;
+}
+
+export interface DialogueManifest {
+  audio: string;
+  durationMs: number;
+  gapMs: number;
+  speakers: Record<string, { voice: string; voiceId: string }>;
+  lines: DialogueLineTiming[];
+}
+
+// Sentence ends: . ! ? … (optionally followed by closing quotes/brackets) and whitespace
+const SENTENCE_BREAK = /(?<=[.!?…]["'”’)\]]*)\s+/;
+
+// Split text that has no usable sentence breaks at the last space (or hard) before maxChars
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let rest = sentence;
+  while (rest.length > maxChars) {
+    const cut = rest.lastIndexOf(" ", maxChars);
+    const at = cut > 0 ? cut : maxChars;
+    parts.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+// Split a script into chunks of at most maxChars, breaking between paragraphs where possible,
+// then between sentences. Chunks are packed greedily so a script makes as few requests as it can.
+export function splitScript(text: string, maxChars: number): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = "";
+  const push = (piece: string, separator: string) => {
+    if (!current) {
+      current = piece;
+    } else if (current.length + separator.length + piece.length <= maxChars) {
+      current += separator + piece;
+    } else {
+      chunks.push(current);
+      current = piece;
+    }
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length <= maxChars) {
+      push(paragraph, "\n\n");
+      continue;
+    }
+
+    // Paragraph too long for one request: fall back to sentence boundaries
+    let separator = "\n\n";
+    for (const sentence of paragraph.split(SENTENCE_BREAK).filter(Boolean)) {
+      for (const piece of splitLongSentence(sentence, maxChars)) {
+        push(piece, separator);
+        separator = " ";
+      }
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+// Lay chunks end to end with silenceMs between them
+export function timeChunks(
+  chunks: { text: string; durationMs: number; taskId?: string }[],
+  silenceMs: number
+): { timings: NarrationChunkTiming[]; durationMs: number } {
+  const timings: NarrationChunkTiming[] = [];
+  let offset = 0;
+
+  chunks.forEach((chunk, index) => {
+    if (index > 0) offset += silenceMs;
+    timings.push({
+      index,
+      text: chunk.text,
+      startMs: Math.round(offset),
+      endMs: Math.round(offset + chunk.durationMs),
+      ...(chunk.taskId && { taskId: chunk.taskId }),
+    });
+    offset += chunk.durationMs;
+  });
+
+  return { timings, durationMs: Math.round(offset) };
+}
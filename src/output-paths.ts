@@ -0,0 +1,73 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// What to do when the output file already exists
+export type ConflictMode = "error" | "overwrite" | "suffix" | "version";
+
+export const CONFLICT_MODES = ["error", "overwrite", "suffix", "version"] as const;
+
+export const DEFAULT_CONFLICT_MODE: ConflictMode = "version";
+
+// Paths handed out but not yet written, so concurrent jobs with the same name don't pick the same version
+const reservedPaths = new Set<string>();
+
+function isTaken(filePath: string): boolean {
+  return reservedPaths.has(filePath) || fs.existsSync(filePath);
+}
+
+export function conflictError(filePath: string): string {
+  return `File already exists: ${path.relative(process.cwd(), filePath)}. Set on_conflict to "overwrite", "suffix" or "version" to write it anyway`;
+}
+
+// YYYYMMDD-HHMMSS in UTC
+function timestampSuffix(): string {
+  return new Date().toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+}
+
+// Next free -vN after the highest existing version of baseName
+function nextVersionPath(dir: string, baseName: string, extension: string): string {
+  const pattern = new RegExp(`^${baseName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}-v(\\d+)\\.${extension}$`);
+  const existing = fs.existsSync(dir)
+    ? fs.readdirSync(dir).map((f) => Number(f.match(pattern)?.[1] || 0))
+    : [];
+  let version = Math.max(1, ...existing) + 1;
+  while (isTaken(path.join(dir, `${baseName}-v${version}.${extension}`))) {
+    version++;
+  }
+  return path.join(dir, `${baseName}-v${version}.${extension}`);
+}
+
+// Pick the path to write `${baseName}.${extension}` to in dir. The returned path is
+// reserved until releaseOutputPath is called.
+export function resolveOutputPath(
+  dir: string,
+  baseName: string,
+  extension: string,
+  mode: ConflictMode = DEFAULT_CONFLICT_MODE
+): { path?: string; error?: string } {
+  const requested = path.join(dir, `${baseName}.${extension}`);
+  let resolved = requested;
+
+  if (mode !== "overwrite" && isTaken(requested)) {
+    if (mode === "error") {
+      return { error: conflictError(requested) };
+    }
+
+    if (mode === "suffix") {
+      const stamped = `${baseName}-${timestampSuffix()}`;
+      resolved = path.join(dir, `${stamped}.${extension}`);
+      for (let n = 2; isTaken(resolved); n++) {
+        resolved = path.join(dir, `${stamped}-${n}.${extension}`);
+      }
+    } else {
+      resolved = nextVersionPath(dir, baseName, extension);
+    }
+  }
+
+  reservedPaths.add(resolved);
+  return { path: resolved };
+}
+
+export function releaseOutputPath(filePath: string): void {
+  reservedPaths.delete(filePath);
+}
@@ -0,0 +1,757 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { httpRequest, readJson } from "./http.js";
+import { getMimeType } from "./airtable.js";
+import { isCharacterAlignment, type CharacterAlignment } from "./captions.js";
+import { registerTranslator, type TranslatorFactory } from "./translators.js";
+
+export type MediaType = "image" | "video" | "sound_effect" | "music" | "speech";
+
+export type GenerationOperation =
+  | "image"
+  | "video_from_text"
+  | "video_from_image"
+  | "sound_effect"
+  | "music"
+  | "music_extend"
+  | "music_cover"
+  | "stem_separation"
+  | "speech";
+
+export interface GenerationRequest {
+  operation: GenerationOperation;
+  // Tool arguments as passed to the generate_* tool (snake_case)
+  params: Record<string, any>;
+}
+
+// Progress reporting and cancellation for the poll loops
+export interface PollContext {
+  signal?: AbortSignal;
+  onProgress?: (update: {
+    attempt: number;
+    maxAttempts: number;
+    state?: string;
+    elapsedMs: number;
+  }) => Promise<void>;
+}
+
+export interface PollOptions {
+  maxAttempts?: number;
+  intervalMs?: number;
+  context?: PollContext;
+}
+
+export interface TaskPollResult {
+  success: boolean;
+  // Provider-specific payload, passed back to extractResultUrls
+  data?: any;
+  error?: string;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  // A status check failed (network error, unreadable response), so the task's state is unknown
+  interrupted?: boolean;
+}
+
+export interface ResultOutput {
+  url: string;
+  metadata?: Record<string, any>;
+  // Appended to the output name for this file (e.g. "vocals" saves <name>-vocals.mp3)
+  suffix?: string;
+  // Character timings for speech requested with timestamps, when the provider returns them
+  alignment?: CharacterAlignment;
+}
+
+export interface MediaProvider {
+  name: string;
+  // model: the provider-side model that will run the task, recorded in the asset's metadata
+  createTask(request: GenerationRequest): Promise<{ taskId?: string; model?: string; error?: string }>;
+  // Resolves rather than throws when a status check fails, with interrupted set (see pollInterrupted)
+  poll(operation: GenerationOperation, taskId: string, options?: PollOptions): Promise<TaskPollResult>;
+  // outputs: every file the task produced with its own details, when there are several to keep
+  extractResultUrls(
+    operation: GenerationOperation,
+    data: any
+  ): { urls: string[]; metadata?: Record<string, any>; outputs?: ResultOutput[] };
+  // Upload a local file and return a URL the provider can fetch (used for image inputs).
+  // Providers without it only accept public URLs.
+  uploadFile?(filePath: string): Promise<{ url?: string; error?: string }>;
+}
+
+export interface ProviderConfig {
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export type ProviderFactory = (config: ProviderConfig) => MediaProvider;
+
+export function getMediaType(operation: GenerationOperation): MediaType {
+  switch (operation) {
+    case "video_from_text":
+    case "video_from_image":
+      return "video";
+    case "music_extend":
+    case "music_cover":
+    case "stem_separation":
+      return "music";
+    default:
+      return operation;
+  }
+}
+
+// Delay between status checks. MEDIA_POLL_INTERVAL_MS overrides it, e.g. for a local mock server.
+export function getPollIntervalMs(): number {
+  return Number(process.env.MEDIA_POLL_INTERVAL_MS) || 5000;
+}
+
+// Wait between polls, waking early if the request is cancelled
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// A status check that threw says nothing about the task, which keeps running at the provider:
+// report it as interrupted (or cancelled, when the caller aborted the request) so the job stays
+// pending and can be checked again
+export function pollInterrupted(error: unknown, signal?: AbortSignal): TaskPollResult {
+  if (signal?.aborted) {
+    return { success: false, error: "Polling cancelled", cancelled: true };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { success: false, error: `Status check failed: ${message}`, interrupted: true };
+}
+
+// ---------------------------------------------------------------------------
+// kie.ai
+// ---------------------------------------------------------------------------
+
+const KIE_DEFAULT_BASE_URL = "https://api.kie.ai";
+// kie.ai's file upload API lives on a separate host
+const KIE_DEFAULT_UPLOAD_BASE_URL = "https://kieai.redpandaai.co";
+
+// Poll for task completion
+async function pollTaskStatus(
+  baseUrl: string,
+  taskId: string,
+  apiKey: string,
+  maxAttempts = 120,
+  intervalMs = getPollIntervalMs(),
+  context: PollContext = {}
+): Promise<TaskPollResult> {
+  const startedAt = Date.now();
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (context.signal?.aborted) {
+      return { success: false, error: "Task polling cancelled", cancelled: true };
+    }
+
+    const response = await httpRequest(
+      `${baseUrl}/api/v1/jobs/recordInfo?taskId=${taskId}`,
+      {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        signal: context.signal,
+      }
+    );
+
+    const result = await readJson(response);
+
+    if (result.code !== 200) {
+      return { success: false, error: `API error: ${result.msg}` };
+    }
+
+    const state = result.data?.state;
+
+    if (state === "success") {
+      return { success: true, data: result.data };
+    }
+
+    if (state === "fail") {
+      return {
+        success: false,
+        error: result.data?.failMsg || "Task failed",
+      };
+    }
+
+    // Still waiting, continue polling
+    console.error(`[remotion-media-mcp] Task ${taskId} status: ${state}, waiting...`);
+    await context.onProgress?.({
+      attempt: attempt + 1,
+      maxAttempts,
+      state,
+      elapsedMs: Date.now() - startedAt,
+    });
+    await sleep(intervalMs, context.signal);
+  }
+
+  return { success: false, error: "Task timed out", timedOut: true };
+}
+
+// Poll for Veo video task completion
+async function pollVeoTaskStatus(
+  baseUrl: string,
+  taskId: string,
+  apiKey: string,
+  maxAttempts = 180,
+  intervalMs = getPollIntervalMs(),
+  context: PollContext = {}
+): Promise<TaskPollResult> {
+  const startedAt = Date.now();
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (context.signal?.aborted) {
+      return { success: false, error: "Video polling cancelled", cancelled: true };
+    }
+
+    const response = await httpRequest(
+      `${baseUrl}/api/v1/veo/record-info?taskId=${taskId}`,
+      {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        signal: context.signal,
+      }
+    );
+
+    const result = await readJson(response);
+
+    if (result.code !== 200) {
+      // Check if still processing
+      if (result.code === 400 && result.msg?.includes("processing")) {
+        console.error(`[remotion-media-mcp] Video ${taskId} still processing...`);
+        await context.onProgress?.({
+          attempt: attempt + 1,
+          maxAttempts,
+          state: "processing",
+          elapsedMs: Date.now() - startedAt,
+        });
+        await sleep(intervalMs, context.signal);
+        continue;
+      }
+      return { success: false, error: `API error: ${result.msg}` };
+    }
+
+    const data = result.data;
+
+    // Check if task completed successfully
+    if (data?.successFlag === 1 && data?.response?.resultUrls?.length > 0) {
+      return { success: true, data };
+    }
+
+    // Check for error
+    if (data?.errorCode || data?.errorMessage) {
+      return { success: false, error: data.errorMessage || `Error code: ${data.errorCode}` };
+    }
+
+    // Still processing (successFlag === 0)
+    console.error(`[remotion-media-mcp] Video ${taskId} status: processing, waiting...`);
+    await context.onProgress?.({
+      attempt: attempt + 1,
+      maxAttempts,
+      state: "processing",
+      elapsedMs: Date.now() - startedAt,
+    });
+    await sleep(intervalMs, context.signal);
+  }
+
+  return { success: false, error: "Video generation timed out", timedOut: true };
+}
+
+// Poll for Suno music task completion
+async function pollMusicTaskStatus(
+  baseUrl: string,
+  taskId: string,
+  apiKey: string,
+  maxAttempts = 180,
+  intervalMs = getPollIntervalMs(),
+  context: PollContext = {}
+): Promise<TaskPollResult> {
+  const startedAt = Date.now();
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (context.signal?.aborted) {
+      return { success: false, error: "Music polling cancelled", cancelled: true };
+    }
+
+    const response = await httpRequest(
+      `${baseUrl}/api/v1/generate/record-info?taskId=${taskId}`,
+      {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        signal: context.signal,
+      }
+    );
+
+    const result = await readJson(response);
+
+    if (result.code !== 200) {
+      return { success: false, error: `API error: ${result.msg}` };
+    }
+
+    const data = result.data;
+    const status = data?.status;
+
+    // SUCCESS means generation is complete
+    if (status === "SUCCESS" && data?.sunoData?.[0]?.audioUrl) {
+      return { success: true, data };
+    }
+
+    // Check for error states
+    if (status === "FAILED" || status === "ERROR") {
+      return {
+        success: false,
+        error: data?.errorMessage || "Music generation failed",
+      };
+    }
+
+    // Still processing (PENDING, TEXT_SUCCESS, FIRST_SUCCESS)
+    console.error(`[remotion-media-mcp] Music ${taskId} status: ${status}, waiting...`);
+    await context.onProgress?.({
+      attempt: attempt + 1,
+      maxAttempts,
+      state: status,
+      elapsedMs: Date.now() - startedAt,
+    });
+    await sleep(intervalMs, context.signal);
+  }
+
+  return { success: false, error: "Music generation timed out", timedOut: true };
+}
+
+// Poll for Suno vocal/stem separation task completion
+async function pollStemTaskStatus(
+  baseUrl: string,
+  taskId: string,
+  apiKey: string,
+  maxAttempts = 180,
+  intervalMs = getPollIntervalMs(),
+  context: PollContext = {}
+): Promise<TaskPollResult> {
+  const startedAt = Date.now();
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (context.signal?.aborted) {
+      return { success: false, error: "Stem separation polling cancelled", cancelled: true };
+    }
+
+    const response = await httpRequest(
+      `${baseUrl}/api/v1/vocal-removal/record-info?taskId=${taskId}`,
+      {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        signal: context.signal,
+      }
+    );
+
+    const result = await readJson(response);
+
+    if (result.code !== 200) {
+      return { success: false, error: `API error: ${result.msg}` };
+    }
+
+    const data = result.data;
+    const status = data?.successFlag;
+
+    if (status === "SUCCESS") {
+      return { success: true, data };
+    }
+
+    // CREATE_TASK_FAILED, GENERATE_AUDIO_FAILED, CALLBACK_EXCEPTION
+    if (status && status !== "PENDING") {
+      return {
+        success: false,
+        error: data?.errorMessage || `Stem separation failed (${status})`,
+      };
+    }
+
+    console.error(`[remotion-media-mcp] Stem separation ${taskId} status: ${status || "PENDING"}, waiting...`);
+    await context.onProgress?.({
+      attempt: attempt + 1,
+      maxAttempts,
+      state: status || "PENDING",
+      elapsedMs: Date.now() - startedAt,
+    });
+    await sleep(intervalMs, context.signal);
+  }
+
+  return { success: false, error: "Stem separation timed out", timedOut: true };
+}
+
+// Suno generation settings shared by generate, upload-cover and extend. Custom mode takes
+// lyrics (as the prompt), style and title instead of a description.
+function sunoSettings(p: Record<string, any>): Record<string, any> {
+  const customMode = Boolean(p.lyrics || p.style || p.title);
+  return customMode
+    ? {
+        customMode: true,
+        ...(p.lyrics && { prompt: p.lyrics }),
+        style: p.style,
+        title: p.title,
+        ...(p.vocal_gender && { vocalGender: p.vocal_gender === "male" ? "m" : "f" }),
+        ...(p.negative_tags && { negativeTags: p.negative_tags }),
+      }
+    : { prompt: p.prompt, customMode: false };
+}
+
+// Map a generation request to the kie.ai endpoint and request body
+function buildKieTaskRequest(request: GenerationRequest): { endpoint: string; body: Record<string, any> } {
+  const p = request.params;
+
+  switch (request.operation) {
+    case "image":
+      return {
+        endpoint: "/api/v1/jobs/createTask",
+        body: {
+          model: "nano-banana-pro",
+          input: {
+            prompt: p.prompt,
+            image_input: p.image_urls || [],
+            aspect_ratio: p.aspect_ratio || "1:1",
+            resolution: p.resolution || "1K",
+            output_format: "png",
+          },
+        },
+      };
+
+    case "video_from_text":
+      return {
+        endpoint: "/api/v1/veo/generate",
+        body: {
+          prompt: p.prompt,
+          model: p.model || "veo3_fast",
+          generationType: "TEXT_2_VIDEO",
+          aspect_ratio: p.aspect_ratio || "16:9",
+          enableTranslation: true,
+        },
+      };
+
+    case "video_from_image":
+      return {
+        endpoint: "/api/v1/veo/generate",
+        body: {
+          prompt: p.prompt,
+          imageUrls: p.image_urls,
+          model: p.model || "veo3_fast",
+          // Determine generation type based on number of images
+          generationType: p.image_urls.length === 1 ? "IMAGE_2_VIDEO" : "FIRST_AND_LAST_FRAMES_2_VIDEO",
+          aspect_ratio: p.aspect_ratio || "16:9",
+          enableTranslation: true,
+        },
+      };
+
+    case "sound_effect": {
+      const input: Record<string, any> = {
+        text: p.prompt,
+        output_format: "mp3_44100_128",
+        prompt_influence: 0.3,
+      };
+
+      if (p.duration_seconds !== undefined) {
+        input.duration_seconds = p.duration_seconds;
+      }
+
+      if (p.loop === true) {
+        input.loop = true;
+      }
+
+      return {
+        endpoint: "/api/v1/jobs/createTask",
+        body: { model: "elevenlabs/sound-effect-v2", input },
+      };
+    }
+
+    case "music":
+      // Note: callBackUrl is required by the API but we use polling instead
+      return {
+        endpoint: "/api/v1/generate",
+        body: {
+          ...sunoSettings(p),
+          instrumental: p.instrumental === true,
+          model: p.model || "V5",
+          callBackUrl: "https://example.com/callback", // Required by API, but we poll for results
+        },
+      };
+
+    case "music_cover":
+      return {
+        endpoint: "/api/v1/generate/upload-cover",
+        body: {
+          uploadUrl: p.audio,
+          ...sunoSettings(p),
+          instrumental: p.instrumental === true,
+          model: p.model || "V5",
+          callBackUrl: "https://example.com/callback",
+        },
+      };
+
+    case "music_extend": {
+      // Without custom settings Suno continues with the source track's own lyrics and style
+      const { customMode, ...settings } = sunoSettings(p);
+      return {
+        endpoint: "/api/v1/generate/extend",
+        body: {
+          audioId: p.audio_id,
+          defaultParamFlag: customMode,
+          ...(customMode && settings),
+          ...(p.continue_at !== undefined && { continueAt: p.continue_at }),
+          // Must match the model that made the source track
+          model: p.model || "V5",
+          callBackUrl: "https://example.com/callback",
+        },
+      };
+    }
+
+    case "stem_separation":
+      return {
+        endpoint: "/api/v1/vocal-removal/generate",
+        body: {
+          taskId: p.source_task_id,
+          audioId: p.audio_id,
+          type: p.type === "stems" ? "split_stem" : "separate_vocal",
+          callBackUrl: "https://example.com/callback",
+        },
+      };
+
+    case "speech": {
+      // Map model parameter to API model name
+      const modelMap: Record<string, string> = {
+        turbo_v2_5: "elevenlabs/text-to-speech-turbo-2-5",
+        multilingual_v2: "elevenlabs/text-to-speech-multilingual-v2",
+      };
+
+      return {
+        endpoint: "/api/v1/jobs/createTask",
+        body: {
+          model: modelMap[p.model || "turbo_v2_5"],
+          input: {
+            text: p.text,
+            voice: p.voice || "Eric",
+            stability: p.stability ?? 0.5,
+            similarity_boost: p.similarity_boost ?? 0.75,
+            speed: p.speed ?? 1.0,
+            ...(p.timestamps && { timestamps: true }),
+          },
+        },
+      };
+    }
+  }
+}
+
+export function createKieProvider(config: ProviderConfig): MediaProvider {
+  const apiKey = config.apiKey || process.env.KIE_API_KEY;
+  if (!apiKey) {
+    throw new Error("KIE_API_KEY environment variable is required");
+  }
+  const baseUrl = (config.baseUrl || process.env.KIE_API_BASE_URL || KIE_DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const uploadBaseUrl = (process.env.KIE_UPLOAD_BASE_URL || KIE_DEFAULT_UPLOAD_BASE_URL).replace(/\/+$/, "");
+
+  return {
+    name: "kie",
+
+    async createTask(request) {
+      const { endpoint, body } = buildKieTaskRequest(request);
+
+      const createResponse = await httpRequest(`${baseUrl}${endpoint}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify(body),
+      });
+
+      const createResult = await readJson(createResponse);
+      console.error(`[remotion-media-mcp] API response:`, JSON.stringify(createResult, null, 2));
+
+      if (createResult.code !== 200) {
+        return { error: createResult.msg || JSON.stringify(createResult) };
+      }
+
+      return { taskId: createResult.data?.taskId, model: body.model };
+    },
+
+    // Uploaded files are temporary on kie.ai's side, which is all a task input needs
+    async uploadFile(filePath) {
+      const filename = path.basename(filePath);
+      const form = new FormData();
+      form.append("file", new Blob([fs.readFileSync(filePath)], { type: getMimeType(filename) }), filename);
+      form.append("uploadPath", "remotion-media");
+      form.append("fileName", filename);
+
+      const response = await httpRequest(`${uploadBaseUrl}/api/file-stream-upload`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: form,
+      });
+
+      const result = await readJson(response);
+      if (result.code !== 200) {
+        return { error: `Upload failed: ${result.msg || JSON.stringify(result)}` };
+      }
+
+      const url = result.data?.downloadUrl || result.data?.fileUrl;
+      return url ? { url } : { error: "No file URL in upload response" };
+    },
+
+    async poll(operation, taskId, options = {}) {
+      const { maxAttempts, intervalMs, context } = options;
+
+      try {
+        if (operation === "video_from_text" || operation === "video_from_image") {
+          return await pollVeoTaskStatus(baseUrl, taskId, apiKey, maxAttempts, intervalMs, context);
+        }
+        if (operation === "music" || operation === "music_extend" || operation === "music_cover") {
+          return await pollMusicTaskStatus(baseUrl, taskId, apiKey, maxAttempts, intervalMs, context);
+        }
+        if (operation === "stem_separation") {
+          return await pollStemTaskStatus(baseUrl, taskId, apiKey, maxAttempts, intervalMs, context);
+        }
+        return await pollTaskStatus(baseUrl, taskId, apiKey, maxAttempts, intervalMs, context);
+      } catch (error) {
+        return pollInterrupted(error, context?.signal);
+      }
+    },
+
+    extractResultUrls(operation, data) {
+      if (operation === "video_from_text" || operation === "video_from_image") {
+        return { urls: data?.response?.resultUrls || [] };
+      }
+
+      // Suno returns two tracks per generation
+      if (operation === "music" || operation === "music_extend" || operation === "music_cover") {
+        const tracks: any[] = (data?.sunoData || []).filter((t: any) => t?.audioUrl);
+        return {
+          urls: tracks.map((t) => t.audioUrl),
+          outputs: tracks.map((t) => ({
+            url: t.audioUrl,
+            metadata: {
+              trackId: t.id,
+              title: t.title,
+              duration: t.duration,
+              tags: t.tags,
+              imageUrl: t.imageUrl,
+            },
+          })),
+        };
+      }
+
+      // One file per stem, named after it: vocalUrl -> <name>-vocals.mp3
+      if (operation === "stem_separation") {
+        const outputs = Object.entries(data?.response || {})
+          .filter(([key, url]) => key.endsWith("Url") && key !== "originUrl" && typeof url === "string" && url)
+          .map(([key, url]) => {
+            const stem =
+              key === "vocalUrl"
+                ? "vocals"
+                : key.slice(0, -"Url".length).replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+            return { url: url as string, suffix: stem, metadata: { stem } };
+          });
+        return { urls: outputs.map((o) => o.url), outputs };
+      }
+
+      const resultJson = JSON.parse(data?.resultJson || "{}");
+      const url = resultJson.resultUrls?.[0] || resultJson.audio_url || resultJson.audioUrl;
+      if (!url) {
+        console.error(`[remotion-media-mcp] Result JSON:`, JSON.stringify(resultJson, null, 2));
+      }
+      const urls = resultJson.resultUrls?.length ? resultJson.resultUrls : url ? [url] : [];
+
+      // ElevenLabs speech with timestamps comes back with its character alignment
+      const alignment = [resultJson.alignment, resultJson.normalized_alignment, resultJson.timestamps].find(
+        isCharacterAlignment
+      );
+      if (operation === "speech" && alignment && urls.length) {
+        return { urls, outputs: [{ url: urls[0], alignment }] };
+      }
+      return { urls };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const providerFactories = new Map<string, ProviderFactory>([["kie", createKieProvider]]);
+
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  providerFactories.set(name, factory);
+}
+
+export function listProviders(): string[] {
+  return [...providerFactories.keys()];
+}
+
+// Provider settings for a media type, e.g. MEDIA_PROVIDER_IMAGE, MEDIA_PROVIDER_IMAGE_BASE_URL,
+// MEDIA_PROVIDER_IMAGE_API_KEY. MEDIA_PROVIDER sets the default provider for every type.
+export function getProviderSettings(mediaType: MediaType): { name: string } & ProviderConfig {
+  const prefix = `MEDIA_PROVIDER_${mediaType.toUpperCase()}`;
+  return {
+    name: process.env[prefix] || process.env.MEDIA_PROVIDER || "kie",
+    baseUrl: process.env[`${prefix}_BASE_URL`] || undefined,
+    apiKey: process.env[`${prefix}_API_KEY`] || undefined,
+  };
+}
+
+// Resolve the provider for a media type. Pass a name to resume a task created by a specific provider.
+export function getProvider(mediaType: MediaType, name?: string): MediaProvider {
+  const settings = getProviderSettings(mediaType);
+  const providerName = name || settings.name;
+
+  const factory = providerFactories.get(providerName);
+  if (!factory) {
+    throw new Error(
+      `Unknown media provider "${providerName}" for ${mediaType}. Available: ${listProviders().join(", ")}`
+    );
+  }
+
+  return factory({ baseUrl: settings.baseUrl, apiKey: settings.apiKey });
+}
+
+// Load custom providers from MEDIA_PROVIDER_MODULES (comma-separated module paths). Each module
+// calls registerProvider itself, or exports a `providers` object mapping names to factories
+// (and/or a `translators` object for translate_subtitles).
+export async function loadProviderModules(): Promise<void> {
+  const modules = (process.env.MEDIA_PROVIDER_MODULES || "")
+    .split(",")
+    .map((m) => m.trim())
+    .filter(Boolean);
+
+  for (const modulePath of modules) {
+    try {
+      const specifier = modulePath.startsWith(".") || path.isAbsolute(modulePath)
+        ? pathToFileURL(path.resolve(process.cwd(), modulePath)).href
+        : modulePath;
+      const mod = await import(specifier);
+
+      if (mod.providers && typeof mod.providers === "object") {
+        for (const [name, factory] of Object.entries(mod.providers)) {
+          registerProvider(name, factory as ProviderFactory);
+        }
+      }
+      if (mod.translators && typeof mod.translators === "object") {
+        for (const [name, factory] of Object.entries(mod.translators)) {
+          registerTranslator(name, factory as TranslatorFactory);
+        }
+      }
+      console.error(`[remotion-media-mcp] Loaded provider module ${modulePath}`);
+    } catch (error) {
+      console.error(
+        `[remotion-media-mcp] Could not load provider module ${modulePath}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import * as fs from "fs";
+import * as path from "path";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  getAirtableConfig,
+  listAirtableRecords,
+  getAirtableRecordByAid,
+  getMimeType,
+} from "./airtable.js";
+
+// Files in public/ that are bookkeeping rather than media: sidecars and partial downloads
+function isListedMediaFile(name: string): boolean {
+  return !name.startsWith(".") && !name.endsWith(".meta.json") && !name.endsWith(".part");
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || mimeType === "application/json";
+}
+
+function publicDir(): string {
+  return path.resolve(process.cwd(), "public");
+}
+
+// Register media://public/{filename} (local files) and asset://{aid} (Airtable library) resources
+export function registerMediaResources(server: McpServer): void {
+  server.registerResource(
+    "public-media",
+    new ResourceTemplate("media://public/{filename}", {
+      list: async () => {
+        const dir = publicDir();
+        if (!fs.existsSync(dir)) return { resources: [] };
+
+        const resources = fs
+          .readdirSync(dir, { withFileTypes: true })
+          .filter((entry) => entry.isFile() && isListedMediaFile(entry.name))
+          .map((entry) => ({
+            uri: `media://public/${encodeURIComponent(entry.name)}`,
+            name: entry.name,
+            mimeType: getMimeType(entry.name),
+          }));
+        return { resources };
+      },
+    }),
+    {
+      title: "Project media",
+      description: "Files in the project's public/ folder, as used with Remotion's staticFile()",
+    },
+    async (uri, { filename }) => {
+      const name = decodeURIComponent(String(filename));
+      // Only files directly inside public/
+      if (name !== path.basename(name)) {
+        throw new Error(`Invalid filename: ${name}`);
+      }
+
+      const filePath = path.join(publicDir(), name);
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`File not found: public/${name}`);
+      }
+
+      const mimeType = getMimeType(name);
+      return {
+        contents: [
+          isTextMimeType(mimeType)
+            ? { uri: uri.href, mimeType, text: fs.readFileSync(filePath, "utf-8") }
+            : { uri: uri.href, mimeType, blob: fs.readFileSync(filePath).toString("base64") },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    "asset-library",
+    new ResourceTemplate("asset://{aid}", {
+      list: async () => {
+        const config = getAirtableConfig();
+        if (!config) return { resources: [] };
+
+        const { records } = await listAirtableRecords(config, { maxRecords: 100 });
+        const resources = records
+          .filter((r) => r.fields.AID)
+          .map((r) => ({
+            uri: `asset://${r.fields.AID}`,
+            name: r.fields["Asset Filename"] || `${r.fields.AID}-${r.fields.Filename || ""}`,
+            ...(r.fields.Description && { description: r.fields.Description }),
+            mimeType: r.fields["MIME Type"] || getMimeType(r.fields.Filename || ""),
+          }));
+        return { resources };
+      },
+    }),
+    {
+      title: "Asset library",
+      description: "Assets in the Airtable library by AID. Reading one returns its record; use get_asset to download the file.",
+      mimeType: "application/json",
+    },
+    async (uri, { aid }) => {
+      const config = getAirtableConfig();
+      if (!config) {
+        throw new Error("Airtable not configured");
+      }
+
+      const record = await getAirtableRecordByAid(config, String(aid));
+      if (!record) {
+        throw new Error(`No asset found with AID "${aid}"`);
+      }
+
+      const files = Array.isArray(record.fields.File) ? record.fields.File : [];
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(
+              {
+                aid: record.fields.AID,
+                filename: record.fields.Filename || "",
+                assetFilename: record.fields["Asset Filename"] || "",
+                description: record.fields.Description || "",
+                mimeType: record.fields["MIME Type"] || "",
+                fileUrl: files[0]?.url || null,
+                createdTime: record.createdTime,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,111 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { getMimeType } from "./airtable.js";
+
+// Provenance recorded next to every generated file as <file>.meta.json
+export interface AssetMetadata {
+  tool: string;
+  // Tool arguments the asset was generated with
+  params: Record<string, any>;
+  provider?: string;
+  model?: string;
+  jobId?: string;
+  taskId?: string;
+  remoteUrl?: string;
+  file: {
+    name: string;
+    bytes: number;
+    mimeType: string;
+    sha256: string;
+  };
+  requestedAt?: string;
+  completedAt: string;
+  aid?: string;
+  airtableRecordId?: string;
+  // Tool-specific extras (voice, track title, whisper command, ...)
+  extras?: Record<string, any>;
+  // The asset this one was regenerated from (see regenerate_asset)
+  parent?: AssetParent;
+}
+
+export interface AssetParent {
+  path?: string;
+  aid?: string;
+  jobId?: string;
+}
+
+export function getSidecarPath(filePath: string): string {
+  return `${filePath}.meta.json`;
+}
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+// Hash the file and write its sidecar. Returns the sidecar path.
+export async function writeSidecar(
+  filePath: string,
+  metadata: Omit<AssetMetadata, "file" | "completedAt">
+): Promise<string> {
+  const sidecar: AssetMetadata = {
+    ...metadata,
+    file: {
+      name: path.basename(filePath),
+      bytes: fs.statSync(filePath).size,
+      mimeType: getMimeType(filePath),
+      sha256: await hashFile(filePath),
+    },
+    completedAt: new Date().toISOString(),
+  };
+
+  const sidecarPath = getSidecarPath(filePath);
+  fs.writeFileSync(sidecarPath, JSON.stringify(sidecar, null, 2));
+  return sidecarPath;
+}
+
+export function readSidecar(filePath: string): AssetMetadata | null {
+  const sidecarPath = getSidecarPath(filePath);
+  if (!fs.existsSync(sidecarPath)) return null;
+
+  try {
+    return JSON.parse(fs.readFileSync(sidecarPath, "utf-8"));
+  } catch (error) {
+    console.error(
+      `[remotion-media-mcp] Could not read metadata file ${sidecarPath}:`,
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+}
+
+// Generated files in dir whose sidecars match the predicate
+export function findAssets(
+  dir: string,
+  predicate: (metadata: AssetMetadata) => boolean
+): { filePath: string; metadata: AssetMetadata }[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const matches: { filePath: string; metadata: AssetMetadata }[] = [];
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.endsWith(".meta.json")) continue;
+
+    const filePath = path.join(dir, name.slice(0, -".meta.json".length));
+    const metadata = readSidecar(filePath);
+    if (metadata && fs.existsSync(filePath) && predicate(metadata)) {
+      matches.push({ filePath, metadata });
+    }
+  }
+  return matches;
+}
+
+// Find the generated file in dir whose sidecar records the given AID
+export function findAssetByAid(dir: string, aid: string): { filePath: string; metadata: AssetMetadata } | null {
+  return findAssets(dir, (metadata) => metadata.aid?.toUpperCase() === aid.toUpperCase())[0] || null;
+}
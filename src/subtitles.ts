@@ -0,0 +1,68 @@
+// SRT and WebVTT cues, parsed to milliseconds and written back without touching their timing
+
+export interface Cue {
+  startMs: number;
+  endMs: number;
+  text: string;
+  // WebVTT cue identifier and settings (e.g. "align:start"), kept when writing VTT
+  id?: string;
+  settings?: string;
+}
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})(.*)$/;
+
+// "01:02:03,456", "02:03.456" or "1:02:03.4" to milliseconds
+function parseTimestamp(value: string): number {
+  const [clock, fraction] = value.split(/[.,]/);
+  const parts = clock.split(":").map(Number);
+  const [hours, minutes, seconds] = parts.length === 3 ? parts : [0, ...parts];
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + Number(fraction.padEnd(3, "0"));
+}
+
+function formatTimestamp(ms: number, separator: "," | "."): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+// Parse SRT or WebVTT. Blocks without a timing line (the WEBVTT header, NOTE, STYLE and REGION
+// blocks, stray text) are skipped.
+export function parseSubtitles(content: string): Cue[] {
+  const cues: Cue[] = [];
+  const blocks = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.trim().split("\n");
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex === -1 || timingIndex > 1) continue;
+
+    const [, start, end, settings] = lines[timingIndex].match(TIMING_LINE)!;
+    // An SRT block number or VTT identifier precedes the timing line
+    const id = timingIndex === 1 ? lines[0].trim() : undefined;
+    cues.push({
+      startMs: parseTimestamp(start),
+      endMs: parseTimestamp(end),
+      text: lines.slice(timingIndex + 1).join("\n").trim(),
+      ...(id && !/^\d+$/.test(id) && { id }),
+      ...(settings.trim() && { settings: settings.trim() }),
+    });
+  }
+
+  return cues;
+}
+
+export function formatSrt(cues: Cue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.startMs, ",")} --> ${formatTimestamp(cue.endMs, ",")}\n${cue.text}\n`)
+    .join("\n");
+}
+
+export function formatVtt(cues: Cue[]): string {
+  const blocks = cues.map((cue) => {
+    const timing = `${formatTimestamp(cue.startMs, ".")} --> ${formatTimestamp(cue.endMs, ".")}`;
+    return `${cue.id ? `${cue.id}\n` : ""}${timing}${cue.settings ? ` ${cue.settings}` : ""}\n${cue.text}\n`;
+  });
+  return ["WEBVTT\n", ...blocks].join("\n");
+}
@@ -0,0 +1,164 @@
+import { exec } from "child_process";
+import { httpRequest, readJson } from "./http.js";
+
+// Pluggable text translation for translate_subtitles. Built in: "llm", any OpenAI-compatible
+// chat completions endpoint (OpenAI, or a local model served by Ollama, LM Studio, llama.cpp...),
+// and "command", a local program that reads JSON on stdin and prints the translations.
+
+export interface TranslationRequest {
+  texts: string[];
+  // Language code, e.g. "es" or "pt-BR"
+  targetLanguage: string;
+  sourceLanguage?: string;
+}
+
+export interface Translator {
+  name: string;
+  // Recorded in the translated file's metadata
+  model?: string;
+  // One translation per text, in order
+  translate(request: TranslationRequest): Promise<string[]>;
+}
+
+export interface TranslatorConfig {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  command?: string;
+}
+
+export type TranslatorFactory = (config: TranslatorConfig) => Translator;
+
+const LLM_DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const LLM_DEFAULT_MODEL = "gpt-4o-mini";
+const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+
+const LLM_INSTRUCTIONS = [
+  "You translate subtitle cues.",
+  'The user sends JSON {"source_language", "target_language", "texts"}.',
+  'Reply with JSON {"translations": [...]} holding exactly one translation per text, in the same order.',
+  "Keep line breaks inside a text, keep names and numbers, and don't merge, split or add cues.",
+].join(" ");
+
+// The translations array from a model or command reply: a JSON array, or an object with
+// "translations", possibly wrapped in a Markdown code fence
+function parseTranslations(output: string, expected: number): string[] {
+  const json = JSON.parse(output.trim().replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  const translations = Array.isArray(json) ? json : json?.translations;
+  if (!Array.isArray(translations) || translations.some((t) => typeof t !== "string")) {
+    throw new Error("Translator reply has no translations array");
+  }
+  if (translations.length !== expected) {
+    throw new Error(`Translator returned ${translations.length} translations for ${expected} texts`);
+  }
+  return translations;
+}
+
+export function createLlmTranslator(config: TranslatorConfig): Translator {
+  const baseUrl = (config.baseUrl || LLM_DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const model = config.model || LLM_DEFAULT_MODEL;
+
+  return {
+    name: "llm",
+    model,
+    async translate({ texts, targetLanguage, sourceLanguage }) {
+      const response = await httpRequest(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: LLM_INSTRUCTIONS },
+            {
+              role: "user",
+              content: JSON.stringify({ source_language: sourceLanguage || "auto", target_language: targetLanguage, texts }),
+            },
+          ],
+        }),
+      });
+
+      const result = await readJson(response);
+      if (!response.ok) {
+        throw new Error(`Translation API error (HTTP ${response.status}): ${result.error?.message || JSON.stringify(result)}`);
+      }
+      const content = result.choices?.[0]?.message?.content;
+      if (typeof content !== "string") {
+        throw new Error("Translation API reply has no message content");
+      }
+      return parseTranslations(content, texts.length);
+    },
+  };
+}
+
+// Runs config.command through the shell with {"source_language", "target_language", "texts"} on
+// stdin; it prints a JSON array of translations (or {"translations": [...]}) on stdout
+export function createCommandTranslator(config: TranslatorConfig): Translator {
+  const command = config.command;
+  if (!command) {
+    throw new Error("TRANSLATION_COMMAND is required for the command translator");
+  }
+
+  return {
+    name: "command",
+    async translate({ texts, targetLanguage, sourceLanguage }) {
+      const stdout = await new Promise<string>((resolve, reject) => {
+        const child = exec(command, { timeout: COMMAND_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }, (error, out, stderr) => {
+          if (error) {
+            reject(new Error(`Translation command failed: ${stderr?.trim() || error.message}`));
+          } else {
+            resolve(out);
+          }
+        });
+        // A command that exits without reading stdin fails through the callback above, not as EPIPE
+        child.stdin?.on("error", () => {});
+        child.stdin?.end(
+          JSON.stringify({ source_language: sourceLanguage || "auto", target_language: targetLanguage, texts })
+        );
+      });
+      return parseTranslations(stdout, texts.length);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const translatorFactories = new Map<string, TranslatorFactory>([
+  ["llm", createLlmTranslator],
+  ["command", createCommandTranslator],
+]);
+
+export function registerTranslator(name: string, factory: TranslatorFactory): void {
+  translatorFactories.set(name, factory);
+}
+
+export function listTranslators(): string[] {
+  return [...translatorFactories.keys()];
+}
+
+// The translator from TRANSLATOR, or the one the TRANSLATION_* settings point at:
+// TRANSLATION_COMMAND for "command", TRANSLATION_BASE_URL or TRANSLATION_API_KEY for "llm".
+// Null when nothing is configured, so translate_subtitles can explain the setup.
+export function getTranslator(): Translator | null {
+  const config: TranslatorConfig = {
+    baseUrl: process.env.TRANSLATION_BASE_URL || undefined,
+    apiKey: process.env.TRANSLATION_API_KEY || undefined,
+    model: process.env.TRANSLATION_MODEL || undefined,
+    command: process.env.TRANSLATION_COMMAND || undefined,
+  };
+  const name =
+    process.env.TRANSLATOR || (config.command ? "command" : config.baseUrl || config.apiKey ? "llm" : undefined);
+  if (!name) return null;
+
+  const factory = translatorFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown translator "${name}". Available: ${listTranslators().join(", ")}`);
+  }
+  return factory(config);
+}
@@ -0,0 +1,98 @@
+import { httpRequest, readJson } from "./http.js";
+
+// ElevenLabs voices for generate_speech. The premade voices below can be used by name;
+// any other voice (cloned, or added from the Voice Library) is used by its voice ID.
+
+export interface VoiceInfo {
+  voiceId: string;
+  name: string;
+  // premade, cloned, professional, generated, ...
+  category: string;
+  gender?: string;
+  accent?: string;
+  age?: string;
+  description?: string;
+  useCase?: string;
+  previewUrl?: string;
+}
+
+export const PRESET_VOICES: VoiceInfo[] = [
+  { voiceId: "21m00Tcm4TlvDq8ikWAM", name: "Rachel", category: "premade", gender: "female", accent: "american", age: "young", description: "calm", useCase: "narration" },
+  { voiceId: "9BWtsMINqrJLrRacOk9x", name: "Aria", category: "premade", gender: "female", accent: "american", age: "middle-aged", description: "expressive", useCase: "social media" },
+  { voiceId: "CwhRBWXzGAHq8TQ4Fs17", name: "Roger", category: "premade", gender: "male", accent: "american", age: "middle-aged", description: "confident", useCase: "social media" },
+  { voiceId: "EXAVITQu4vr4xnSDxMaL", name: "Sarah", category: "premade", gender: "female", accent: "american", age: "young", description: "soft", useCase: "news" },
+  { voiceId: "FGY2WhTYpPnrIDTdsKH5", name: "Laura", category: "premade", gender: "female", accent: "american", age: "young", description: "upbeat", useCase: "social media" },
+  { voiceId: "IKne3meq5aSn9XLyUdCD", name: "Charlie", category: "premade", gender: "male", accent: "australian", age: "middle-aged", description: "natural", useCase: "conversational" },
+  { voiceId: "JBFqnCBsd6RMkjVDRZzb", name: "George", category: "premade", gender: "male", accent: "british", age: "middle-aged", description: "warm", useCase: "narration" },
+  { voiceId: "N2lVS1w4EtoT3dr4eOWO", name: "Callum", category: "premade", gender: "male", accent: "transatlantic", age: "middle-aged", description: "intense", useCase: "characters" },
+  { voiceId: "SAz9YHcvj6GT2YYXdXww", name: "River", category: "premade", gender: "non-binary", accent: "american", age: "middle-aged", description: "confident", useCase: "social media" },
+  { voiceId: "TX3LPaxmHKxFdv7VOQHJ", name: "Liam", category: "premade", gender: "male", accent: "american", age: "young", description: "articulate", useCase: "narration" },
+  { voiceId: "XB0fDUnXU5powFXDhCwa", name: "Charlotte", category: "premade", gender: "female", accent: "swedish", age: "young", description: "seductive", useCase: "characters" },
+  { voiceId: "Xb7hH8MSUJpSbSDYk0k2", name: "Alice", category: "premade", gender: "female", accent: "british", age: "middle-aged", description: "confident", useCase: "news" },
+  { voiceId: "XrExE9yKIg1WjnnlVkGX", name: "Matilda", category: "premade", gender: "female", accent: "american", age: "middle-aged", description: "friendly", useCase: "narration" },
+  { voiceId: "bIHbv24MWmeRgasZH58o", name: "Will", category: "premade", gender: "male", accent: "american", age: "young", description: "friendly", useCase: "social media" },
+  { voiceId: "cgSgspJ2msm6clMCkdW9", name: "Jessica", category: "premade", gender: "female", accent: "american", age: "young", description: "expressive", useCase: "conversational" },
+  { voiceId: "cjVigY5qzO86Huf0OWal", name: "Eric", category: "premade", gender: "male", accent: "american", age: "middle-aged", description: "friendly", useCase: "conversational" },
+  { voiceId: "iP95p4xoKVk53GoZ742B", name: "Chris", category: "premade", gender: "male", accent: "american", age: "middle-aged", description: "casual", useCase: "conversational" },
+  { voiceId: "nPczCjzI2devNBz1zQrb", name: "Brian", category: "premade", gender: "male", accent: "american", age: "middle-aged", description: "deep", useCase: "narration" },
+  { voiceId: "onwK4e9ZLuTAKqWW03F9", name: "Daniel", category: "premade", gender: "male", accent: "british", age: "middle-aged", description: "authoritative", useCase: "news" },
+  { voiceId: "pFZP5JQG7iQjIQuC4Bku", name: "Lily", category: "premade", gender: "female", accent: "british", age: "middle-aged", description: "warm", useCase: "narration" },
+  { voiceId: "pqHfZKP75CvOlQylNhV4", name: "Bill", category: "premade", gender: "male", accent: "american", age: "old", description: "trustworthy", useCase: "narration" },
+];
+
+export const PRESET_VOICE_NAMES = PRESET_VOICES.map((v) => v.name) as [string, ...string[]];
+
+export const DEFAULT_VOICE = "Eric";
+
+// ElevenLabs voice IDs are 20 alphanumeric characters
+export const VOICE_ID_PATTERN = /^[A-Za-z0-9]{20}$/;
+
+// The preset a voice name or ID refers to, if any
+export function findPresetVoice(voice: string): VoiceInfo | undefined {
+  const lower = voice.toLowerCase();
+  return PRESET_VOICES.find((v) => v.name.toLowerCase() === lower || v.voiceId === voice);
+}
+
+const ELEVENLABS_DEFAULT_BASE_URL = "https://api.elevenlabs.io";
+
+// Voices available to the ElevenLabs account in ELEVENLABS_API_KEY, including cloned and
+// Voice Library voices, with preview URLs. Null when no key is configured.
+async function fetchAccountVoices(): Promise<VoiceInfo[] | null> {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  if (!apiKey) return null;
+
+  const baseUrl = (process.env.ELEVENLABS_API_BASE_URL || ELEVENLABS_DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const response = await httpRequest(`${baseUrl}/v1/voices`, {
+    headers: { "xi-api-key": apiKey },
+  });
+  const result = await readJson(response);
+  if (!response.ok) {
+    throw new Error(`ElevenLabs API error (HTTP ${response.status}): ${result.detail?.message || JSON.stringify(result)}`);
+  }
+
+  return (result.voices || []).map((v: any) => ({
+    voiceId: v.voice_id,
+    name: v.name,
+    category: v.category || "unknown",
+    ...(v.labels?.gender && { gender: v.labels.gender }),
+    ...(v.labels?.accent && { accent: v.labels.accent }),
+    ...(v.labels?.age && { age: v.labels.age }),
+    ...((v.labels?.description || v.description) && { description: v.labels?.description || v.description }),
+    ...((v.labels?.use_case || v.labels?.["use case"]) && { useCase: v.labels.use_case || v.labels["use case"] }),
+    ...(v.preview_url && { previewUrl: v.preview_url }),
+  }));
+}
+
+// The voice catalog: the account's voices when ELEVENLABS_API_KEY is set, otherwise the presets.
+// A failed account lookup falls back to the presets with a warning.
+export async function listVoices(): Promise<{ voices: VoiceInfo[]; source: "elevenlabs" | "presets"; warning?: string }> {
+  try {
+    const account = await fetchAccountVoices();
+    if (account) return { voices: account, source: "elevenlabs" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[remotion-media-mcp] Could not list ElevenLabs voices: ${message}`);
+    return { voices: PRESET_VOICES, source: "presets", warning: `Could not list account voices: ${message}` };
+  }
+  return { voices: PRESET_VOICES, source: "presets" };
+}
@@ -0,0 +1,166 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execSync, execFile } from "child_process";
+import { promisify } from "util";
+import { downloadToFile, partialPathFor } from "./http.js";
+import { normalizeCaptionSpacing, type Caption } from "./captions.js";
+
+const execFileAsync = promisify(execFile);
+
+// Local Whisper for subtitles and speech alignment: whisper.cpp (whisper-cli) or OpenAI's
+// Python whisper, whichever is installed
+
+export interface WhisperCommand {
+  cmd: string;
+  type: "whisper-cpp" | "openai-whisper";
+}
+
+// Models run to several GB
+const MODEL_DOWNLOAD_TIMEOUT_MS = 60 * 60 * 1000;
+const TRANSCRIBE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Check for Whisper installation and return the command name
+export function getWhisperCommand(): WhisperCommand | null {
+  // Check for whisper.cpp (Homebrew) - binary is called whisper-cli
+  try {
+    execSync("which whisper-cli", { stdio: "ignore" });
+    return { cmd: "whisper-cli", type: "whisper-cpp" };
+  } catch {}
+
+  // Check in Homebrew opt path
+  try {
+    const brewPath = "/opt/homebrew/opt/whisper-cpp/bin/whisper-cli";
+    if (fs.existsSync(brewPath)) {
+      return { cmd: brewPath, type: "whisper-cpp" };
+    }
+  } catch {}
+
+  // Check for OpenAI whisper (Python)
+  try {
+    execSync("which whisper", { stdio: "ignore" });
+    return { cmd: "whisper", type: "openai-whisper" };
+  } catch {}
+
+  return null;
+}
+
+// Where a whisper.cpp model is downloaded from (Hugging Face, or WHISPER_MODEL_BASE_URL)
+export function whisperModelUrl(modelSize: string): string {
+  const modelBaseUrl = (
+    process.env.WHISPER_MODEL_BASE_URL || "https://huggingface.co/ggerganov/whisper.cpp/resolve/main"
+  ).replace(/\/+$/, "");
+  return `${modelBaseUrl}/ggml-${modelSize}.bin`;
+}
+
+// Model lookups and downloads in progress in this process, keyed by model size, so concurrent
+// callers share one download and its rename into place
+const activeModelLoads = new Map<string, Promise<string>>();
+
+// Find a whisper.cpp model in the usual places, downloading it to ./models if it isn't there.
+// An interrupted download resumes from its partial file.
+export function ensureWhisperModel(modelSize: string): Promise<string> {
+  const active = activeModelLoads.get(modelSize);
+  if (active) return active;
+
+  const run = findOrDownloadModel(modelSize);
+  activeModelLoads.set(modelSize, run);
+  return run.finally(() => activeModelLoads.delete(modelSize));
+}
+
+async function findOrDownloadModel(modelSize: string): Promise<string> {
+  const modelFileName = `ggml-${modelSize}.bin`;
+  const possibleModelPaths = [
+    path.join(process.cwd(), "models", modelFileName),
+    path.join(process.env.HOME || "", ".cache", "whisper", modelFileName),
+    `/opt/homebrew/share/whisper-cpp/models/${modelFileName}`,
+    path.join(process.cwd(), modelFileName),
+  ];
+  const existing = possibleModelPaths.find((p) => fs.existsSync(p));
+  if (existing) return existing;
+
+  const modelsDir = path.join(process.cwd(), "models");
+  fs.mkdirSync(modelsDir, { recursive: true });
+  const modelPath = path.join(modelsDir, modelFileName);
+
+  console.error(`[remotion-media-mcp] Model not found locally, downloading ${modelSize} model...`);
+  const partialPath = partialPathFor(modelPath, true);
+  await downloadToFile(whisperModelUrl(modelSize), partialPath, { timeoutMs: MODEL_DOWNLOAD_TIMEOUT_MS, resume: true });
+  fs.renameSync(partialPath, modelPath);
+  console.error(`[remotion-media-mcp] Model downloaded to ${modelPath}`);
+  return modelPath;
+}
+
+// whisper.cpp's full JSON (-ojf). With --max-len 1 every segment is one word; its confidence
+// is the mean probability of its text tokens, and t_dtw (centiseconds) is the word's timestamp.
+export function parseWhisperCppJson(json: any): Caption[] {
+  const captions = (json?.transcription || [])
+    .filter((segment: any) => segment.text?.trim())
+    .map((segment: any) => {
+      const tokens = (segment.tokens || []).filter((t: any) => !/^\[_/.test(t.text || ""));
+      const probabilities = tokens.map((t: any) => t.p).filter((p: any) => typeof p === "number");
+      const dtw = tokens.find((t: any) => typeof t.t_dtw === "number" && t.t_dtw >= 0)?.t_dtw;
+      return {
+        text: segment.text,
+        startMs: segment.offsets.from,
+        endMs: segment.offsets.to,
+        timestampMs: dtw !== undefined ? dtw * 10 : null,
+        confidence: probabilities.length
+          ? probabilities.reduce((sum: number, p: number) => sum + p, 0) / probabilities.length
+          : null,
+      };
+    });
+  return normalizeCaptionSpacing(captions);
+}
+
+// openai-whisper's JSON output with --word_timestamps True
+export function parseOpenAiWhisperJson(json: any): Caption[] {
+  const captions = (json?.segments || []).flatMap((segment: any) =>
+    (segment.words || []).map((w: any) => ({
+      text: w.word,
+      startMs: Math.round(w.start * 1000),
+      endMs: Math.round(w.end * 1000),
+      timestampMs: null,
+      confidence: typeof w.probability === "number" ? w.probability : null,
+    }))
+  );
+  return normalizeCaptionSpacing(captions);
+}
+
+// Transcribe a file to word-level captions
+export async function transcribeWords(
+  whisper: WhisperCommand,
+  inputPath: string,
+  options: { model?: string; language?: string } = {}
+): Promise<Caption[]> {
+  const modelSize = options.model || "base";
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "remotion-media-whisper-"));
+
+  try {
+    let args: string[];
+    let jsonPath: string;
+    if (whisper.type === "whisper-cpp") {
+      const modelPath = await ensureWhisperModel(modelSize);
+      const outputPrefix = path.join(workDir, "words");
+      jsonPath = `${outputPrefix}.json`;
+      args = ["-m", modelPath, "-f", inputPath, "-ojf", "--max-len", "1", "--split-on-word", "-of", outputPrefix];
+      if (options.language) args.push("-l", options.language);
+    } else {
+      // openai-whisper names the output after the input file
+      jsonPath = path.join(workDir, `${path.basename(inputPath, path.extname(inputPath))}.json`);
+      args = [inputPath, "--output_format", "json", "--word_timestamps", "True", "--output_dir", workDir, "--model", modelSize];
+      if (options.language) args.push("--language", options.language);
+    }
+
+    console.error(`[remotion-media-mcp] Running: ${whisper.cmd} ${args.join(" ")}`);
+    await execFileAsync(whisper.cmd, args, { timeout: TRANSCRIBE_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 });
+
+    if (!fs.existsSync(jsonPath)) {
+      throw new Error(`Expected Whisper output at ${jsonPath} but it was not created`);
+    }
+    const json = JSON.parse(fs.readFileSync(jsonPath, "utf-8"));
+    return whisper.type === "whisper-cpp" ? parseWhisperCppJson(json) : parseOpenAiWhisperJson(json);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
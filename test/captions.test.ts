@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { captionsFromAlignment, isCharacterAlignment, normalizeCaptionSpacing } from "../src/captions.js";
+
+// Alignment with 100ms per character
+function alignment(text: string) {
+  const characters = [...text];
+  return {
+    characters,
+    character_start_times_seconds: characters.map((_, i) => i / 10),
+    character_end_times_seconds: characters.map((_, i) => (i + 1) / 10),
+  };
+}
+
+describe("captionsFromAlignment", () => {
+  it("groups characters into words across offset pieces", () => {
+    const captions = captionsFromAlignment([
+      { alignment: alignment("Hi  all"), offsetMs: 0 },
+      { alignment: alignment("Bye"), offsetMs: 2000 },
+    ]);
+    assert.deepEqual(
+      captions.map((c) => [c.text, c.startMs, c.endMs]),
+      [
+        ["Hi", 0, 200],
+        [" all", 400, 700],
+        [" Bye", 2000, 2300],
+      ]
+    );
+  });
+
+  it("recognises ElevenLabs alignments", () => {
+    assert.equal(isCharacterAlignment(alignment("a")), true);
+    assert.equal(isCharacterAlignment({ characters: ["a"] }), false);
+    assert.equal(isCharacterAlignment(undefined), false);
+  });
+});
+
+describe("normalizeCaptionSpacing", () => {
+  it("puts one space before every word but the first", () => {
+    const word = (text: string) => ({ text, startMs: 0, endMs: 0, timestampMs: null, confidence: null });
+    assert.deepEqual(
+      normalizeCaptionSpacing([word(" Hello"), word("there"), word("  again ")]).map((c) => c.text),
+      ["Hello", " there", " again"]
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createRequire } from "module";
+import { fileURLToPath, pathToFileURL } from "url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { MockServer } from "./mock-server.js";
+
+const SERVER_ENTRY = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "src", "index.ts");
+
+// Resolved up front because the server runs with the temporary project directory as its cwd
+const TSX_LOADER = pathToFileURL(createRequire(import.meta.url).resolve("tsx")).href;
+
+export interface TestClient {
+  client: Client;
+  projectDir: string;
+  call(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  close(): Promise<void>;
+}
+
+export interface ToolResult {
+  text: string;
+  // Parsed JSON body, or undefined when the tool returned plain text
+  json?: any;
+  content: any[];
+  progress: any[];
+}
+
+// Environment pointing every kie.ai, Airtable, ElevenLabs and translation call at the mock server
+export function mockEnv(mock: MockServer, overrides: Record<string, string> = {}): Record<string, string> {
+  return {
+    KIE_API_KEY: "test-key",
+    KIE_API_BASE_URL: mock.url,
+    KIE_UPLOAD_BASE_URL: mock.url,
+    AIRTABLE_API_KEY: "test-airtable-key",
+    AIRTABLE_BASE_ID: "appTEST",
+    AIRTABLE_TABLE_NAME: "Assets",
+    AIRTABLE_API_BASE_URL: mock.url,
+    AIRTABLE_CONTENT_BASE_URL: mock.url,
+    ELEVENLABS_API_KEY: "test-elevenlabs-key",
+    ELEVENLABS_API_BASE_URL: mock.url,
+    TRANSLATION_BASE_URL: `${mock.url}/v1`,
+    TRANSLATION_API_KEY: "test-translation-key",
+    MEDIA_POLL_INTERVAL_MS: "5",
+    HTTP_RETRY_BASE_MS: "1",
+    // The mock's media files are only headers, so skip ffprobe/ffmpeg even where they're installed
+    FFPROBE_PATH: path.join(os.tmpdir(), "no-ffprobe"),
+    FFMPEG_PATH: path.join(os.tmpdir(), "no-ffmpeg"),
+    ...overrides,
+  };
+}
+
+// Word-level output of the fake whisper-cli, as whisper.cpp's full JSON (-ojf)
+export const FAKE_WHISPER_JSON = {
+  transcription: [
+    {
+      offsets: { from: 0, to: 400 },
+      text: " Hello",
+      tokens: [
+        { text: "[_BEG_]", p: 0.99 },
+        { text: " Hello", p: 0.8, t_dtw: 12 },
+      ],
+    },
+    { offsets: { from: 400, to: 900 }, text: " world", tokens: [{ text: " world", p: 0.6, t_dtw: -1 }] },
+  ],
+};
+
+// Fake whisper-cli in binDir: writes FAKE_WHISPER_JSON to <-of>.json for -ojf, and a one-cue
+// file for each of -osrt, -ovtt and -otxt
+export function writeFakeWhisperCli(binDir: string): void {
+  fs.writeFileSync(
+    path.join(binDir, "whisper-cli"),
+    `#!/bin/sh
+formats=""
+while [ $# -gt 0 ]; do
+  case "$1" in
+    -of) out="$2"; shift ;;
+    -ojf) formats="$formats json" ;;
+    -osrt) formats="$formats srt" ;;
+    -ovtt) formats="$formats vtt" ;;
+    -otxt) formats="$formats txt" ;;
+  esac
+  shift
+done
+for format in $formats; do
+  case "$format" in
+    json) cat > "$out.json" <<'JSON'
+${JSON.stringify(FAKE_WHISPER_JSON)}
+JSON
+    ;;
+    srt) printf '1\\n00:00:00,000 --> 00:00:01,000\\nHello\\n' > "$out.srt" ;;
+    vtt) printf 'WEBVTT\\n\\n00:00:00.000 --> 00:00:01.000\\nHello\\n' > "$out.vtt" ;;
+    txt) printf 'Hello\\n' > "$out.txt" ;;
+  esac
+done
+`,
+    { mode: 0o755 }
+  );
+}
+
+export function makeProjectDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "remotion-media-mcp-test-"));
+}
+
+// Start the MCP server over stdio in a fresh project directory
+export async function startClient(
+  env: Record<string, string>,
+  projectDir: string = makeProjectDir()
+): Promise<TestClient> {
+  // Drop real credentials from the parent environment so tests never reach real APIs
+  const baseEnv = Object.fromEntries(
+    Object.entries(process.env).filter(
+      ([key, value]) =>
+        value !== undefined && !/^(KIE_|AIRTABLE_|ELEVENLABS_|TRANSLATION_|TRANSLATOR|MEDIA_PROVIDER)/.test(key)
+    )
+  ) as Record<string, string>;
+
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ["--import", TSX_LOADER, SERVER_ENTRY],
+    cwd: projectDir,
+    env: { ...baseEnv, ...env },
+    stderr: process.env.DEBUG_MCP ? "inherit" : "ignore",
+  });
+
+  const client = new Client({ name: "remotion-media-mcp-test", version: "1.0.0" });
+  await client.connect(transport);
+
+  return {
+    client,
+    projectDir,
+    async call(name, args = {}) {
+      const progress: any[] = [];
+      const result = await client.callTool({ name, arguments: args }, undefined, {
+        onprogress: (p) => progress.push(p),
+        timeout: 60000,
+      });
+      const content = result.content as any[];
+      const text = content.find((c) => c.type === "text")?.text ?? "";
+      let json: any;
+      try {
+        json = JSON.parse(text);
+      } catch {}
+      return { text, json, content, progress };
+    },
+    async close() {
+      await client.close();
+    },
+  };
+}
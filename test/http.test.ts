@@ -0,0 +1,114 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import { downloadToFile, httpRequest, partialPathFor } from "../src/http.js";
+import { createKieProvider } from "../src/providers.js";
+import { startMockServer } from "./mock-server.js";
+import { makeProjectDir } from "./helpers.js";
+
+const MODEL = Buffer.from(Array.from({ length: 4096 }, (_, i) => i % 251));
+
+describe("http client", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let dir: string;
+  const ranges: (string | undefined)[] = [];
+  let flakyCalls = 0;
+
+  before(async () => {
+    process.env.HTTP_RETRY_BASE_MS = "1";
+    dir = makeProjectDir();
+
+    server = http.createServer((req, res) => {
+      if (req.url === "/model.bin") {
+        ranges.push(req.headers.range);
+        const start = Number(req.headers.range?.match(/^bytes=(\d+)-$/)?.[1] || 0);
+        if (start > 0) {
+          res.writeHead(206, {
+            "Content-Length": String(MODEL.length - start),
+            "Content-Range": `bytes ${start}-${MODEL.length - 1}/${MODEL.length}`,
+          });
+          res.end(MODEL.subarray(start));
+          return;
+        }
+        // First request: send part of the body, give the client time to write it, then drop the connection
+        res.writeHead(200, { "Content-Length": String(MODEL.length) });
+        res.write(MODEL.subarray(0, 1000), () => setTimeout(() => res.destroy(), 200));
+        return;
+      }
+      if (req.url === "/flaky") {
+        flakyCalls++;
+        if (flakyCalls === 1) {
+          res.writeHead(503, { "Retry-After": "0" });
+          res.end();
+          return;
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end('{"ok":true}');
+        return;
+      }
+      if (req.url === "/truncated") {
+        res.writeHead(200, { "Content-Length": "100" });
+        res.write(Buffer.alloc(10), () => res.destroy());
+        return;
+      }
+      res.writeHead(404);
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    delete process.env.HTTP_RETRY_BASE_MS;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("retries 503 responses", async () => {
+    const response = await httpRequest(`${baseUrl}/flaky`);
+    assert.equal(response.status, 200);
+    assert.equal(flakyCalls, 2);
+  });
+
+  it("resumes an interrupted download with a Range request", async () => {
+    const target = path.join(dir, "models", "model.bin");
+    const result = await downloadToFile(`${baseUrl}/model.bin`, partialPathFor(target, true), { resume: true });
+
+    assert.equal(result.bytes, MODEL.length);
+    assert.equal(ranges[0], undefined);
+    assert.equal(ranges[1], "bytes=1000-");
+    assert.deepEqual(fs.readFileSync(partialPathFor(target, true)), MODEL);
+  });
+
+  it("removes the partial file when a download fails", async () => {
+    const partial = partialPathFor(path.join(dir, "public", "clip.mp4"));
+    await assert.rejects(downloadToFile(`${baseUrl}/truncated`, partial), /terminated|truncated/);
+    assert.ok(!fs.existsSync(partial));
+    assert.deepEqual(fs.readdirSync(path.join(dir, "public")), []);
+  });
+});
+
+describe("http client against the mock kie.ai API", () => {
+  it("does not send a timed-out createTask again", async () => {
+    const mock = await startMockServer();
+    process.env.HTTP_RETRY_BASE_MS = "1";
+    process.env.HTTP_TIMEOUT_MS = "100";
+    try {
+      const provider = createKieProvider({ apiKey: "test-key", baseUrl: mock.url });
+      await assert.rejects(
+        provider.createTask({ operation: "image", params: { prompt: "A fox mock:slow-create" } }),
+        /timed out/
+      );
+      assert.equal(mock.requests.filter((r) => r.path === "/api/v1/jobs/createTask").length, 1);
+      assert.equal(mock.tasks.size, 1);
+    } finally {
+      delete process.env.HTTP_RETRY_BASE_MS;
+      delete process.env.HTTP_TIMEOUT_MS;
+      await mock.close();
+    }
+  });
+});
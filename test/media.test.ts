@@ -0,0 +1,120 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { validateMediaFile, sniffFormat, createPreview, concatAudio } from "../src/media.js";
+import { makeProjectDir } from "./helpers.js";
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(32)]);
+const MP4 = Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from("ftypmp42"), Buffer.alloc(32)]);
+
+describe("validateMediaFile", () => {
+  let dir: string;
+  const originalFfprobe = process.env.FFPROBE_PATH;
+  const originalFfmpeg = process.env.FFMPEG_PATH;
+
+  // Fake ffprobe that always prints the given JSON
+  function useFakeFfprobe(output: object): void {
+    const script = path.join(dir, "ffprobe");
+    fs.writeFileSync(script, `#!/bin/sh\ncat <<'JSON'\n${JSON.stringify(output)}\nJSON\n`, { mode: 0o755 });
+    process.env.FFPROBE_PATH = script;
+  }
+
+  function write(name: string, bytes: Buffer): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, bytes);
+    return file;
+  }
+
+  before(() => {
+    dir = makeProjectDir();
+  });
+
+  after(() => {
+    if (originalFfprobe === undefined) delete process.env.FFPROBE_PATH;
+    else process.env.FFPROBE_PATH = originalFfprobe;
+    if (originalFfmpeg === undefined) delete process.env.FFMPEG_PATH;
+    else process.env.FFMPEG_PATH = originalFfmpeg;
+  });
+
+  it("sniffs common formats", () => {
+    assert.equal(sniffFormat(PNG), "png");
+    assert.equal(sniffFormat(MP4), "mp4");
+    assert.equal(sniffFormat(Buffer.from("ID3\x04\x00")), "mp3");
+    assert.equal(sniffFormat(Buffer.from([0xff, 0xfb, 0x90, 0x00])), "mpeg-audio");
+    assert.equal(sniffFormat(Buffer.from("  <html><body>502</body></html>")), "html");
+    assert.equal(sniffFormat(Buffer.from('{"error":"nope"}')), "json");
+  });
+
+  it("accepts a file whose bytes match its extension", async () => {
+    process.env.FFPROBE_PATH = path.join(dir, "missing-ffprobe");
+    const result = await validateMediaFile(write("ok.png", PNG), { contentLength: PNG.length });
+    assert.equal(result.valid, true, result.error);
+  });
+
+  it("rejects empty, truncated and mismatched files", async () => {
+    process.env.FFPROBE_PATH = path.join(dir, "missing-ffprobe");
+
+    const empty = await validateMediaFile(write("empty.mp3", Buffer.alloc(0)));
+    assert.equal(empty.error, "File is empty");
+
+    const truncated = await validateMediaFile(write("short.mp4", MP4), { contentLength: MP4.length + 100 });
+    assert.match(truncated.error || "", /truncated/);
+
+    const mismatch = await validateMediaFile(write("video.mp4", PNG));
+    assert.equal(mismatch.details.detectedFormat, "png");
+    assert.match(mismatch.error || "", /Expected video\/mp4/);
+  });
+
+  it("checks duration and dimensions with ffprobe", async () => {
+    useFakeFfprobe({ format: { duration: "8.0" }, streams: [{ codec_type: "video", width: 1280, height: 720 }] });
+    const ok = await validateMediaFile(write("clip.mp4", MP4));
+    assert.equal(ok.valid, true, ok.error);
+    assert.deepEqual(ok.details.probe, { durationSeconds: 8, width: 1280, height: 720 });
+
+    useFakeFfprobe({ format: {}, streams: [] });
+    const broken = await validateMediaFile(write("broken.mp4", MP4));
+    assert.match(broken.error || "", /duration/);
+  });
+
+  it("creates previews with ffmpeg, falling back to small images as-is", async () => {
+    // Fake ffmpeg that records its arguments and writes a JPEG header to the output path (last argument)
+    const script = path.join(dir, "ffmpeg");
+    fs.writeFileSync(
+      script,
+      `#!/bin/sh\necho "$@" > "${dir}/ffmpeg-args"\nfor last; do :; done\nprintf '\\377\\330\\377' > "$last"\n`,
+      { mode: 0o755 }
+    );
+    process.env.FFMPEG_PATH = script;
+
+    const poster = await createPreview(write("poster.mp4", MP4));
+    assert.equal(poster.preview?.mimeType, "image/jpeg", poster.error);
+    assert.deepEqual(Buffer.from(poster.preview!.data, "base64"), Buffer.from([0xff, 0xd8, 0xff]));
+    assert.match(fs.readFileSync(path.join(dir, "ffmpeg-args"), "utf-8"), /thumbnail,scale=/);
+
+    process.env.FFMPEG_PATH = path.join(dir, "missing-ffmpeg");
+    const image = await createPreview(write("small.png", PNG));
+    assert.equal(image.preview?.mimeType, "image/png");
+    const video = await createPreview(write("clip2.mp4", MP4));
+    assert.match(video.error || "", /ffmpeg is required/);
+  });
+
+  it("joins audio with ffmpeg, padding all but the last input", async () => {
+    const script = path.join(dir, "ffmpeg");
+    fs.writeFileSync(
+      script,
+      `#!/bin/sh\necho "$@" > "${dir}/concat-args"\nfor last; do :; done\nprintf 'ID3' > "$last"\n`,
+      { mode: 0o755 }
+    );
+    process.env.FFMPEG_PATH = script;
+
+    const output = path.join(dir, "joined.mp3");
+    await concatAudio([write("a.mp3", Buffer.from("ID3")), write("b.mp3", Buffer.from("ID3"))], output, 300);
+    assert.equal(fs.readFileSync(output, "utf-8"), "ID3");
+    const args = fs.readFileSync(path.join(dir, "concat-args"), "utf-8");
+    assert.match(args, /\[0:a\]apad=pad_dur=0\.300\[a0\];\[1:a\]anull\[a1\];\[a0\]\[a1\]concat=n=2:v=0:a=1\[out\]/);
+
+    process.env.FFMPEG_PATH = path.join(dir, "missing-ffmpeg");
+    await assert.rejects(concatAudio([output], path.join(dir, "x.mp3")), /ffmpeg is required/);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { splitScript, timeChunks } from "../src/narration.js";
+
+describe("splitScript", () => {
+  it("packs whole paragraphs into as few chunks as fit", () => {
+    const text = "First paragraph.\n\nSecond one.\n\n\nThird, a bit longer.";
+    assert.deepEqual(splitScript(text, 1000), [text.replace("\n\n\n", "\n\n")]);
+    assert.deepEqual(splitScript(text, 30), ["First paragraph.\n\nSecond one.", "Third, a bit longer."]);
+  });
+
+  it("falls back to sentences, then spaces, for long paragraphs", () => {
+    const paragraph = 'One sentence here. "Another one!" And a third?';
+    assert.deepEqual(splitScript(paragraph, 20), ["One sentence here.", '"Another one!"', "And a third?"]);
+    assert.deepEqual(splitScript("aaaa bbbb cccc dddd", 9), ["aaaa bbbb", "cccc dddd"]);
+    for (const chunk of splitScript("x".repeat(25), 10)) {
+      assert.ok(chunk.length <= 10);
+    }
+  });
+});
+
+describe("timeChunks", () => {
+  it("lays chunks end to end with silence between them", () => {
+    const { timings, durationMs } = timeChunks(
+      [
+        { text: "a", durationMs: 1000.4, taskId: "t1" },
+        { text: "b", durationMs: 500 },
+      ],
+      250
+    );
+    assert.deepEqual(timings, [
+      { index: 0, text: "a", startMs: 0, endMs: 1000, taskId: "t1" },
+      { index: 1, text: "b", startMs: 1250, endMs: 1750 },
+    ]);
+    assert.equal(durationMs, 1750);
+  });
+});
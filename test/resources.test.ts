@@ -0,0 +1,69 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { startMockServer, type MockServer } from "./mock-server.js";
+import { startClient, mockEnv, type TestClient } from "./helpers.js";
+
+describe("resources", () => {
+  let mock: MockServer;
+  let mcp: TestClient;
+  let listChanged = 0;
+
+  before(async () => {
+    mock = await startMockServer();
+    mcp = await startClient(mockEnv(mock));
+    mcp.client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      listChanged++;
+    });
+  });
+
+  after(async () => {
+    await mcp?.close();
+    await mock?.close();
+  });
+
+  it("lists and reads generated files in public/", async () => {
+    const result = await mcp.call("generate_image", { prompt: "Sky", output_name: "sky" });
+    assert.equal(result.json?.success, true, result.text);
+    assert.ok(listChanged > 0, "expected a resource list-changed notification");
+
+    const { resources } = await mcp.client.listResources();
+    const sky = resources.find((r) => r.uri === "media://public/sky.png");
+    assert.equal(sky?.mimeType, "image/png");
+    // Sidecars are bookkeeping, not media
+    assert.ok(!resources.some((r) => r.uri.endsWith(".meta.json")));
+
+    const read = await mcp.client.readResource({ uri: "media://public/sky.png" });
+    const content = read.contents[0] as { blob: string; mimeType: string };
+    assert.equal(content.mimeType, "image/png");
+    assert.deepEqual(Buffer.from(content.blob, "base64"), fs.readFileSync(path.join(mcp.projectDir, "public", "sky.png")));
+  });
+
+  it("reads text files as text and rejects paths outside public/", async () => {
+    fs.writeFileSync(path.join(mcp.projectDir, "public", "captions.srt"), "1\n00:00:00,000 --> 00:00:01,000\nHi\n");
+    const read = await mcp.client.readResource({ uri: "media://public/captions.srt" });
+    assert.match((read.contents[0] as { text: string }).text, /Hi/);
+
+    await assert.rejects(mcp.client.readResource({ uri: "media://public/..%2Fpackage.json" }), /Invalid filename/);
+    await assert.rejects(mcp.client.readResource({ uri: "media://public/missing.png" }), /File not found/);
+  });
+
+  it("lists and reads asset library records", async () => {
+    fs.writeFileSync(path.join(mcp.projectDir, "public", "badge.png"), "png");
+    const before = listChanged;
+    const backup = await mcp.call("backup_asset", { file_path: "public/badge.png", description: "Badge" });
+    assert.equal(backup.json?.success, true, backup.text);
+    assert.ok(listChanged > before);
+
+    const { resources } = await mcp.client.listResources();
+    const asset = resources.find((r) => r.uri === `asset://${backup.json.aid}`);
+    assert.equal(asset?.description, "Badge");
+
+    const read = await mcp.client.readResource({ uri: `asset://${backup.json.aid}` });
+    const record = JSON.parse((read.contents[0] as { text: string }).text);
+    assert.equal(record.filename, "badge.png");
+    assert.ok(record.fileUrl);
+  });
+});
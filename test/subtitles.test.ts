@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseSubtitles, formatSrt, formatVtt } from "../src/subtitles.js";
+
+const SRT = "1\r\n00:00:01,000 --> 00:00:02,500\r\nFirst line\r\nsecond line\r\n\r\n2\r\n01:02:03,040 --> 01:02:04,000\r\nLater\r\n";
+
+describe("subtitles", () => {
+  it("parses SRT and writes it back unchanged", () => {
+    const cues = parseSubtitles(SRT);
+    assert.deepEqual(cues, [
+      { startMs: 1000, endMs: 2500, text: "First line\nsecond line" },
+      { startMs: 3723040, endMs: 3724000, text: "Later" },
+    ]);
+    assert.equal(formatSrt(cues), SRT.replace(/\r\n/g, "\n"));
+  });
+
+  it("parses WebVTT headers, notes, identifiers, short timestamps and settings", () => {
+    const vtt = "WEBVTT - title\n\nNOTE ignored\n\nSTYLE\n::cue { color: red }\n\nintro\n00:01.5 --> 00:02.000 line:90%\nHi\n\n00:00:03.000 --> 00:00:04.000\nBye\n";
+    const cues = parseSubtitles(vtt);
+    assert.deepEqual(cues, [
+      { startMs: 1500, endMs: 2000, text: "Hi", id: "intro", settings: "line:90%" },
+      { startMs: 3000, endMs: 4000, text: "Bye" },
+    ]);
+    assert.equal(
+      formatVtt(cues),
+      "WEBVTT\n\nintro\n00:00:01.500 --> 00:00:02.000 line:90%\nHi\n\n00:00:03.000 --> 00:00:04.000\nBye\n"
+    );
+  });
+});
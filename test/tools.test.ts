@@ -0,0 +1,1146 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { startMockServer, type MockServer } from "./mock-server.js";
+import {
+  startClient,
+  mockEnv,
+  makeProjectDir,
+  writeFakeWhisperCli,
+  type TestClient,
+} from "./helpers.js";
+import { buildJob, type JobRecord } from "../src/jobs.js";
+
+const GENERATION_CASES = [
+  { tool: "generate_image", args: { prompt: "A red fox" }, ext: "png", urlKey: "imageUrl" },
+  { tool: "generate_video_from_text", args: { prompt: "A drone shot" }, ext: "mp4", urlKey: "videoUrl" },
+  {
+    tool: "generate_video_from_image",
+    args: { prompt: "Slow zoom", image_urls: ["https://example.com/a.png"] },
+    ext: "mp4",
+    urlKey: "videoUrl",
+  },
+  { tool: "generate_sound_effect", args: { prompt: "A whoosh" }, ext: "mp3", urlKey: "audioUrl" },
+  { tool: "generate_music", args: { prompt: "Lo-fi beat" }, ext: "mp3", urlKey: "audioUrl" },
+  { tool: "generate_speech", args: { text: "Hello world" }, ext: "mp3", urlKey: "audioUrl" },
+];
+
+// Put a scenario marker into whichever text field the tool sends to the provider
+function withMarker(args: Record<string, any>, marker: string): Record<string, any> {
+  return "text" in args ? { ...args, text: `${args.text} ${marker}` } : { ...args, prompt: `${args.prompt} ${marker}` };
+}
+
+describe("generation tools", () => {
+  let mock: MockServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    mock = await startMockServer();
+    mcp = await startClient(mockEnv(mock));
+  });
+
+  after(async () => {
+    await mcp?.close();
+    await mock?.close();
+  });
+
+  it("registers every tool", async () => {
+    const { tools } = await mcp.client.listTools();
+    const names = tools.map((t) => t.name);
+    for (const name of [
+      ...GENERATION_CASES.map((c) => c.tool),
+      "generate_batch",
+      "generate_subtitles",
+      "list_assets",
+      "backup_asset",
+      "get_asset",
+      "get_job_status",
+      "wait_for_job",
+      "list_jobs",
+      "get_asset_info",
+      "regenerate_asset",
+      "select_candidate",
+      "extend_music",
+      "cover_music",
+      "separate_stems",
+      "list_voices",
+      "generate_dialogue",
+      "translate_subtitles",
+    ]) {
+      assert.ok(names.includes(name), `missing tool ${name}`);
+    }
+  });
+
+  for (const c of GENERATION_CASES) {
+    describe(c.tool, () => {
+      it("downloads the result into public/ and registers it in Airtable", async () => {
+        const outputName = `${c.tool}-ok`;
+        const result = await mcp.call(c.tool, { ...c.args, output_name: outputName });
+
+        assert.equal(result.json?.success, true, result.text);
+        assert.equal(result.json.relativePath, `public/${outputName}.${c.ext}`);
+        assert.ok(result.json.taskId);
+        assert.ok(result.json[c.urlKey]);
+        assert.match(result.json.aid, /^A\d+$/);
+        assert.ok(fs.existsSync(path.join(mcp.projectDir, "public", `${outputName}.${c.ext}`)));
+      });
+
+      it("reports task creation errors", async () => {
+        const result = await mcp.call(c.tool, { ...withMarker(c.args, "mock:create-error"), output_name: "x" });
+        assert.match(result.text, /^Error creating .* task: Invalid input \(mock\)/);
+      });
+
+      it("reports failed tasks", async () => {
+        const outputName = `${c.tool}-fail`;
+        const result = await mcp.call(c.tool, { ...withMarker(c.args, "mock:fail"), output_name: outputName });
+        assert.match(result.text, /^Error: .*\(mock\)/);
+        assert.ok(!fs.existsSync(path.join(mcp.projectDir, "public", `${outputName}.${c.ext}`)));
+      });
+
+      it("times out when the task never finishes", async () => {
+        const result = await mcp.call(c.tool, { ...withMarker(c.args, "mock:pending"), output_name: "x" });
+        assert.match(result.text, /^Error: .*timed out/);
+      });
+
+      it("reports malformed status responses and keeps the job pending", async () => {
+        const result = await mcp.call(c.tool, { ...withMarker(c.args, "mock:malformed"), output_name: "x" });
+        assert.match(result.text, /^Error: Status check failed: .*JSON.*Job job-\w+ is still pending/);
+      });
+    });
+  }
+
+  it("reports a missing result URL", async () => {
+    const result = await mcp.call("generate_image", { prompt: "mock:no-url", output_name: "no-url" });
+    assert.equal(result.text, "Error: No image URL in response");
+  });
+
+  it("retries rate-limited requests", async () => {
+    const result = await mcp.call("generate_image", { prompt: "Busy mock:rate-limit", output_name: "rate-limit" });
+    assert.equal(result.json?.success, true, result.text);
+    const creates = mock.requests.filter(
+      (r) => r.path === "/api/v1/jobs/createTask" && JSON.stringify(r.body).includes("mock:rate-limit")
+    );
+    assert.equal(creates.length, 2);
+  });
+
+  it("does not save error pages as media", async () => {
+    const result = await mcp.call("generate_image", { prompt: "mock:bad-download", output_name: "bad-download" });
+    assert.match(result.text, /Download failed \(HTTP 404\)/);
+    assert.ok(!fs.existsSync(path.join(mcp.projectDir, "public", "bad-download.png")));
+  });
+
+  it("rejects downloads whose content doesn't match the file type", async () => {
+    const result = await mcp.call("generate_video_from_text", { prompt: "mock:html-body", output_name: "html-body" });
+    assert.equal(result.json?.success, false, result.text);
+    assert.match(result.json.error, /failed validation: Expected video\/mp4 but the file content looks like html/);
+    assert.equal(result.json.validation.detectedFormat, "html");
+    assert.ok(!fs.existsSync(path.join(mcp.projectDir, "public", "html-body.mp4")));
+  });
+
+  it("sends progress notifications while polling", async () => {
+    const result = await mcp.call("generate_music", { prompt: "Ambient pads", output_name: "progress" });
+    assert.equal(result.json?.success, true, result.text);
+    assert.ok(result.progress.length > 0);
+    assert.match(result.progress[0].message, /TEXT_SUCCESS/);
+  });
+
+  it("runs a batch and reports per-item errors", async () => {
+    const result = await mcp.call("generate_batch", {
+      concurrency: 2,
+      items: [
+        { type: "image", prompt: "Shot 1", output_name: "batch-1" },
+        { type: "sound_effect", prompt: "Boom mock:fail", output_name: "batch-2" },
+        { type: "speech", text: "Line one", output_name: "batch-3" },
+      ],
+    });
+
+    assert.equal(result.json?.total, 3, result.text);
+    assert.equal(result.json.succeeded, 2);
+    assert.equal(result.json.results[0].relativePath, "public/batch-1.png");
+    assert.equal(result.json.results[1].success, false);
+    assert.match(result.json.results[1].error, /mock/);
+    assert.equal(result.json.results[2].relativePath, "public/batch-3.mp3");
+  });
+
+  it("runs async jobs with wait=false", async () => {
+    const submitted = await mcp.call("generate_image", { prompt: "Async", output_name: "async", wait: false });
+    assert.equal(submitted.json?.status, "pending", submitted.text);
+
+    const waited = await mcp.call("wait_for_job", { job_id: submitted.json.jobId, timeout_seconds: 30 });
+    assert.equal(waited.json?.status, "completed", waited.text);
+    assert.equal(waited.json.result.relativePath, "public/async.png");
+
+    const status = await mcp.call("get_job_status", { job_id: submitted.json.jobId });
+    assert.equal(status.json?.status, "completed");
+
+    const listed = await mcp.call("list_jobs", { status: "completed" });
+    assert.ok(listed.json.jobs.some((j: any) => j.jobId === submitted.json.jobId));
+  });
+
+  it("keeps its own timeout when joining a job another call is already waiting on", async () => {
+    const submitted = await mcp.call("generate_image", { prompt: "Joined mock:pending", output_name: "joined", wait: false });
+    assert.equal(submitted.json?.status, "pending", submitted.text);
+
+    // The first wait outlives the second and is left to run out after the test
+    const longWait = mcp.call("wait_for_job", { job_id: submitted.json.jobId, timeout_seconds: 10 });
+    longWait.catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const startedAt = Date.now();
+    const shortWait = await mcp.call("wait_for_job", { job_id: submitted.json.jobId, timeout_seconds: 5 });
+    assert.equal(shortWait.json?.status, "pending", shortWait.text);
+    assert.ok(Date.now() - startedAt < 9000);
+    assert.ok(shortWait.progress.length > 0);
+  });
+
+  it("versions, suffixes, overwrites or refuses existing outputs", async () => {
+    const first = await mcp.call("generate_image", { prompt: "Hero", output_name: "hero" });
+    assert.equal(first.json?.relativePath, "public/hero.png", first.text);
+
+    const second = await mcp.call("generate_image", { prompt: "Hero again", output_name: "hero" });
+    assert.equal(second.json?.relativePath, "public/hero-v2.png", second.text);
+    assert.equal(second.json.requestedPath, "public/hero.png");
+
+    const third = await mcp.call("generate_image", { prompt: "Hero 3", output_name: "hero", on_conflict: "version" });
+    assert.equal(third.json?.relativePath, "public/hero-v3.png", third.text);
+
+    const suffixed = await mcp.call("generate_image", { prompt: "Hero", output_name: "hero", on_conflict: "suffix" });
+    assert.match(suffixed.json?.relativePath, /^public\/hero-\d{8}-\d{6}\.png$/, suffixed.text);
+
+    const overwritten = await mcp.call("generate_image", { prompt: "Hero", output_name: "hero", on_conflict: "overwrite" });
+    assert.equal(overwritten.json?.relativePath, "public/hero.png", overwritten.text);
+    assert.equal(overwritten.json.requestedPath, undefined);
+
+    const creates = mock.requests.filter((r) => r.path === "/api/v1/jobs/createTask").length;
+    const refused = await mcp.call("generate_image", { prompt: "Hero", output_name: "hero", on_conflict: "error" });
+    assert.match(refused.text, /^Error: File already exists: public\/hero\.png/);
+    assert.equal(mock.requests.filter((r) => r.path === "/api/v1/jobs/createTask").length, creates);
+  });
+
+  it("keeps both Suno tracks with their cover images", async () => {
+    const publicDir = path.join(mcp.projectDir, "public");
+    const result = await mcp.call("generate_music", { prompt: "Synthwave", output_name: "theme" });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.relativePath, "public/theme.mp3");
+    assert.equal(result.json.outputs.length, 2);
+
+    const [first, second] = result.json.outputs;
+    assert.equal(second.relativePath, "public/theme-2.mp3");
+    assert.deepEqual(
+      [first.title, second.title, first.duration, second.duration, first.tags],
+      ["Mock Track 1", "Mock Track 2", 31, 32, "mock, test"]
+    );
+    assert.equal(first.coverPath, "public/theme-cover.png");
+    assert.equal(second.coverPath, "public/theme-2-cover.png");
+    assert.notEqual(first.aid, second.aid);
+    for (const name of ["theme.mp3", "theme-2.mp3", "theme-cover.png", "theme-2-cover.png", "theme-2.mp3.meta.json"]) {
+      assert.ok(fs.existsSync(path.join(publicDir, name)), `missing ${name}`);
+    }
+
+    // The second track's name is checked before generating too
+    fs.writeFileSync(path.join(publicDir, "taken-2.mp3"), "mp3");
+    const refused = await mcp.call("generate_music", { prompt: "Synthwave", output_name: "taken", on_conflict: "error" });
+    assert.match(refused.text, /^Error: File already exists: public\/taken-2\.mp3/);
+  });
+
+  it("keeps the second Suno track when the first fails to download", async () => {
+    const result = await mcp.call("generate_music", { prompt: "Chiptune mock:partial-download", output_name: "partial" });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.relativePath, "public/partial-2.mp3");
+
+    const [first, second] = result.json.outputs;
+    assert.equal(first.success, false);
+    assert.match(first.error, /Download failed \(HTTP 404\)/);
+    assert.equal(second.relativePath, "public/partial-2.mp3");
+    assert.ok(!fs.existsSync(path.join(mcp.projectDir, "public", "partial.mp3")));
+  });
+
+  it("generates music in custom mode with lyrics, style and title", async () => {
+    const result = await mcp.call("generate_music", {
+      prompt: "Brand jingle",
+      output_name: "jingle",
+      model: "V4",
+      lyrics: "Fresh every morning",
+      style: "bright pop, ukulele",
+      title: "Morning Jingle",
+      vocal_gender: "female",
+      negative_tags: "distortion",
+    });
+    assert.equal(result.json?.success, true, result.text);
+    assert.deepEqual(result.json.settings, {
+      mode: "custom",
+      model: "V4",
+      instrumental: false,
+      style: "bright pop, ukulele",
+      title: "Morning Jingle",
+      lyrics: "Fresh every morning",
+      vocal_gender: "female",
+      negative_tags: "distortion",
+    });
+
+    const request = mock.requests.find((r) => r.path === "/api/v1/generate" && r.body?.title === "Morning Jingle");
+    assert.deepEqual(
+      [request?.body.customMode, request?.body.prompt, request?.body.style, request?.body.vocalGender, request?.body.negativeTags],
+      [true, "Fresh every morning", "bright pop, ukulele", "f", "distortion"]
+    );
+  });
+
+  it("enforces custom-mode requirements and per-model length limits", async () => {
+    const missing = await mcp.call("generate_music", { prompt: "Jingle", output_name: "bad-1", style: "pop" });
+    assert.match(missing.text, /^Invalid music parameters: title: Required in custom mode; lyrics: Required/);
+
+    const tooLong = await mcp.call("generate_music", {
+      prompt: "Jingle",
+      output_name: "bad-2",
+      model: "V4",
+      style: "s".repeat(300),
+      title: "Jingle",
+      instrumental: true,
+    });
+    assert.match(tooLong.text, /style: V4 allows at most 200 characters/);
+
+    // The same style fits V5's limit
+    const v5 = await mcp.call("generate_music", {
+      prompt: "Jingle",
+      output_name: "long-style",
+      style: "s".repeat(300),
+      title: "Jingle",
+      instrumental: true,
+    });
+    assert.equal(v5.json?.success, true, v5.text);
+
+    const simpleOnly = await mcp.call("generate_music", { prompt: "Jingle", output_name: "bad-3", vocal_gender: "male" });
+    assert.match(simpleOnly.text, /vocal_gender: Only used in custom mode/);
+  });
+
+  it("extends, covers and splits a generated track", async () => {
+    const publicDir = path.join(mcp.projectDir, "public");
+    const base = await mcp.call("generate_music", { prompt: "Piano loop", output_name: "base", model: "V4_5" });
+    assert.equal(base.json?.success, true, base.text);
+
+    const extended = await mcp.call("extend_music", { source: "public/base.mp3", continue_at: 20 });
+    assert.equal(extended.json?.success, true, extended.text);
+    assert.deepEqual(
+      extended.json.outputs.map((o: any) => o.relativePath),
+      ["public/base-extended.mp3", "public/base-extended-2.mp3"]
+    );
+    assert.equal(extended.json.parent.path, "public/base.mp3");
+    const extendRequest = mock.requests.find((r) => r.path === "/api/v1/generate/extend");
+    assert.deepEqual(
+      [extendRequest?.body.audioId, extendRequest?.body.continueAt, extendRequest?.body.defaultParamFlag, extendRequest?.body.model],
+      [base.json.trackId, 20, false, "V4_5"]
+    );
+
+    const pastEnd = await mcp.call("extend_music", { source: "public/base.mp3", continue_at: 90 });
+    assert.match(pastEnd.text, /continue_at: Must be before the end of the source track \(31s\)/);
+
+    const cover = await mcp.call("cover_music", { audio: "public/base.mp3", prompt: "Jazz trio", output_name: "base-jazz" });
+    assert.equal(cover.json?.success, true, cover.text);
+    assert.equal(cover.json.audioInput.source, "public/base.mp3");
+    const coverRequest = mock.requests.find((r) => r.path === "/api/v1/generate/upload-cover");
+    assert.match(coverRequest?.body.uploadUrl, /\/files\/upload-\d+-base\.mp3$/);
+
+    // on_conflict "error" checks the stem files, not the source they're named after
+    const vocals = await mcp.call("separate_stems", { source: "public/base.mp3", on_conflict: "error" });
+    assert.equal(vocals.json?.success, true, vocals.text);
+    assert.deepEqual(
+      vocals.json.outputs.map((o: any) => [o.stem, o.relativePath]),
+      [
+        ["vocals", "public/base-vocals.mp3"],
+        ["instrumental", "public/base-instrumental.mp3"],
+      ]
+    );
+    const stemRequest = mock.requests.find((r) => r.path === "/api/v1/vocal-removal/generate");
+    assert.deepEqual(
+      [stemRequest?.body.taskId, stemRequest?.body.audioId, stemRequest?.body.type],
+      [base.json.taskId, base.json.trackId, "separate_vocal"]
+    );
+
+    const separations = mock.requests.filter((r) => r.path === "/api/v1/vocal-removal/generate").length;
+    const again = await mcp.call("separate_stems", { source: "public/base.mp3", on_conflict: "error" });
+    assert.match(again.text, /^Error: File already exists: public\/base-vocals\.mp3/);
+    assert.equal(mock.requests.filter((r) => r.path === "/api/v1/vocal-removal/generate").length, separations);
+
+    const stems = await mcp.call("separate_stems", { source: "public/base.mp3", type: "stems", output_name: "split" });
+    assert.equal(stems.json?.success, true, stems.text);
+    for (const name of ["split-vocals.mp3", "split-backing-vocals.mp3", "split-drums.mp3", "split-bass.mp3"]) {
+      assert.ok(fs.existsSync(path.join(publicDir, name)), `missing ${name}`);
+    }
+
+    fs.writeFileSync(path.join(publicDir, "plain.mp3"), "mp3");
+    const untracked = await mcp.call("separate_stems", { source: "public/plain.mp3" });
+    assert.match(untracked.text, /^Error: No generated track with metadata found/);
+  });
+
+  it("lists account voices and speaks with a voice ID", async () => {
+    const voices = await mcp.call("list_voices", { gender: "male" });
+    assert.equal(voices.json?.source, "elevenlabs", voices.text);
+    assert.deepEqual(voices.json.voices.map((v: any) => [v.name, v.category, v.previewUrl?.endsWith("clone-preview.mp3")]), [
+      ["Founder Clone", "cloned", true],
+    ]);
+
+    const speech = await mcp.call("generate_speech", { text: "Welcome back", output_name: "clone", voice: "CloneVoice0000000001" });
+    assert.equal(speech.json?.success, true, speech.text);
+    assert.equal(speech.json.voiceId, "CloneVoice0000000001");
+    const request = mock.requests.find((r) => r.body?.input?.text === "Welcome back");
+    assert.equal(request?.body.input.voice, "CloneVoice0000000001");
+
+    const preset = await mcp.call("generate_speech", { text: "Hi", output_name: "preset", voice: "Brian" });
+    assert.equal(preset.json?.voiceId, "nPczCjzI2devNBz1zQrb", preset.text);
+
+    const invalid = await mcp.call("generate_speech", { text: "Hi", output_name: "bad", voice: "Nobody" });
+    assert.match(invalid.text, /voice/);
+    assert.equal(invalid.json?.success, undefined);
+  });
+
+  it("writes word timings from the provider's alignment", async () => {
+    const result = await mcp.call("generate_speech", { text: "Hi there", output_name: "timed", timestamps: true });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.timingsSource, "provider");
+    const request = mock.requests.find((r) => r.body?.input?.text === "Hi there");
+    assert.equal(request?.body.input.timestamps, true);
+
+    const timings = JSON.parse(fs.readFileSync(path.join(mcp.projectDir, result.json.timingsPath), "utf-8"));
+    assert.deepEqual(
+      timings.words.map((w: any) => [w.text, w.startMs, w.endMs]),
+      [
+        ["Hi", 0, 100],
+        [" there", 150, 400],
+      ]
+    );
+    assert.deepEqual(timings.characters[2], { char: " ", startMs: 100, endMs: 150 });
+  });
+
+  it("records provenance in a sidecar readable with get_asset_info", async () => {
+    const result = await mcp.call("generate_video_from_text", {
+      prompt: "Neon city",
+      output_name: "provenance",
+      model: "veo3",
+      aspect_ratio: "9:16",
+    });
+    assert.equal(result.json?.metadataPath, "public/provenance.mp4.meta.json", result.text);
+
+    const info = await mcp.call("get_asset_info", { file_path: "provenance.mp4" });
+    assert.equal(info.json?.success, true, info.text);
+    assert.equal(info.json.tool, "generate_video_from_text");
+    assert.equal(info.json.provider, "kie");
+    assert.equal(info.json.model, "veo3");
+    assert.equal(info.json.taskId, result.json.taskId);
+    assert.equal(info.json.remoteUrl, result.json.videoUrl);
+    assert.deepEqual(info.json.params, { prompt: "Neon city", output_name: "provenance", model: "veo3", aspect_ratio: "9:16" });
+    assert.match(info.json.file.sha256, /^[0-9a-f]{64}$/);
+    assert.equal(info.json.modifiedSinceGeneration, false);
+
+    fs.appendFileSync(path.join(mcp.projectDir, "public", "provenance.mp4"), "edited");
+    const edited = await mcp.call("get_asset_info", { file_path: "public/provenance.mp4" });
+    assert.equal(edited.json?.modifiedSinceGeneration, true);
+
+    fs.writeFileSync(path.join(mcp.projectDir, "public", "manual.png"), "png");
+    const manual = await mcp.call("get_asset_info", { file_path: "manual.png" });
+    assert.equal(manual.json?.error, "No metadata found");
+  });
+
+  it("regenerates an asset from its sidecar with overrides and a prompt delta", async () => {
+    const original = await mcp.call("generate_image", {
+      prompt: "Lighthouse at dusk",
+      output_name: "lighthouse",
+      aspect_ratio: "16:9",
+    });
+    assert.equal(original.json?.success, true, original.text);
+
+    const result = await mcp.call("regenerate_asset", {
+      source: "public/lighthouse.png",
+      prompt_delta: "warmer colors",
+      overrides: { resolution: "2K" },
+    });
+    assert.equal(result.json?.relativePath, "public/lighthouse-v2.png", result.text);
+    assert.equal(result.json.parent.path, "public/lighthouse.png");
+    assert.equal(result.json.parent.jobId, JSON.parse(
+      fs.readFileSync(path.join(mcp.projectDir, "public", "lighthouse.png.meta.json"), "utf-8")
+    ).jobId);
+
+    const task = mock.tasks.get(result.json.taskId)!;
+    assert.equal(task.body.input.prompt, "Lighthouse at dusk, warmer colors");
+    assert.equal(task.body.input.aspect_ratio, "16:9");
+    assert.equal(task.body.input.resolution, "2K");
+
+    const info = await mcp.call("get_asset_info", { file_path: "lighthouse-v2.png" });
+    assert.equal(info.json?.parent.path, "public/lighthouse.png");
+    assert.equal(info.json.params.prompt, "Lighthouse at dusk, warmer colors");
+  });
+
+  it("rejects regeneration sources without provenance or with invalid overrides", async () => {
+    fs.writeFileSync(path.join(mcp.projectDir, "public", "stock.png"), "png");
+    const missing = await mcp.call("regenerate_asset", { source: "stock.png" });
+    assert.equal(missing.json?.error, "No metadata found");
+
+    await mcp.call("generate_image", { prompt: "Cube", output_name: "cube" });
+    const invalid = await mcp.call("regenerate_asset", { source: "cube.png", overrides: { resolution: "8K" } });
+    assert.equal(invalid.json?.error, "Invalid parameters", invalid.text);
+    assert.match(invalid.json.issues[0], /^resolution:/);
+  });
+
+  it("uploads local image inputs before creating the task", async () => {
+    await mcp.call("generate_image", { prompt: "Start frame", output_name: "start-frame" });
+
+    const result = await mcp.call("generate_video_from_image", {
+      prompt: "Animate it",
+      image_urls: ["public/start-frame.png", "https://example.com/end.png"],
+      output_name: "animated",
+    });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.imageInputs[0].source, "public/start-frame.png");
+
+    const task = mock.tasks.get(result.json.taskId)!;
+    assert.match(task.body.imageUrls[0], /\/files\/upload-\d+-start-frame\.png$/);
+    assert.equal(task.body.imageUrls[1], "https://example.com/end.png");
+
+    // The journal and sidecar keep the local path so regeneration re-uploads it
+    const info = await mcp.call("get_asset_info", { file_path: "animated.mp4" });
+    assert.deepEqual(info.json?.params.image_urls, ["public/start-frame.png", "https://example.com/end.png"]);
+
+    const missing = await mcp.call("generate_image", { prompt: "x", image_urls: ["public/nope.png"], output_name: "x" });
+    assert.match(missing.text, /^Error creating image task: Could not find 'public\/nope\.png'/);
+  });
+
+  it("returns a preview as image content when asked", async () => {
+    const image = await mcp.call("generate_image", { prompt: "Logo", output_name: "preview", preview: true });
+    assert.equal(image.json?.success, true, image.text);
+    const block = image.content.find((c) => c.type === "image");
+    assert.equal(block?.mimeType, "image/png");
+    assert.deepEqual(
+      Buffer.from(block.data, "base64"),
+      fs.readFileSync(path.join(mcp.projectDir, "public", "preview.png"))
+    );
+
+    // Without ffmpeg there is no poster frame, but the generation still succeeds
+    const video = await mcp.call("generate_video_from_text", { prompt: "Clip", output_name: "preview", preview: true });
+    assert.equal(video.json?.success, true, video.text);
+    assert.equal(video.content[1].text, "Preview unavailable: ffmpeg is required for video poster frames");
+
+    const plain = await mcp.call("generate_image", { prompt: "Logo", output_name: "no-preview" });
+    assert.equal(plain.content.length, 1);
+  });
+
+  it("generates several candidates and promotes the selected one", async () => {
+    const publicDir = path.join(mcp.projectDir, "public");
+    const result = await mcp.call("generate_image", { prompt: "Poster", output_name: "poster", num_images: 3, preview: true });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.succeeded, 3);
+    assert.deepEqual(
+      result.json.candidates.map((c: any) => c.relativePath),
+      ["public/poster-1.png", "public/poster-2.png", "public/poster-3.png"]
+    );
+    assert.equal(result.content.filter((c) => c.type === "image").length, 3);
+
+    const selected = await mcp.call("select_candidate", { candidate: "public/poster-2.png" });
+    assert.equal(selected.json?.success, true, selected.text);
+    assert.equal(selected.json.relativePath, "public/poster.png");
+    assert.deepEqual(selected.json.removed.sort(), ["public/poster-1.png", "public/poster-3.png"]);
+    assert.deepEqual(
+      fs.readdirSync(publicDir).filter((f) => f.startsWith("poster")).sort(),
+      ["poster.png", "poster.png.meta.json"]
+    );
+
+    const info = await mcp.call("get_asset_info", { file_path: "public/poster.png" });
+    assert.equal(info.json?.params.output_name, "poster");
+    assert.equal(info.json.extras.selectedCandidate.index, 2);
+    assert.equal(info.json.modifiedSinceGeneration, false);
+
+    const notCandidate = await mcp.call("select_candidate", { candidate: "public/poster.png" });
+    assert.equal(notCandidate.json?.error, "Not a candidate");
+
+    // A later selection doesn't replace the canonical file unless asked to
+    await mcp.call("generate_image", { prompt: "Poster", output_name: "poster", num_images: 2 });
+    const again = await mcp.call("select_candidate", { candidate: "public/poster-1.png" });
+    assert.equal(again.json?.relativePath, "public/poster-v2.png", again.text);
+    assert.ok(fs.existsSync(path.join(publicDir, "poster.png")));
+  });
+
+  it("translates subtitles into each language, keeping the timing", async () => {
+    const publicDir = path.join(mcp.projectDir, "public");
+    fs.mkdirSync(publicDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(publicDir, "talk.vtt"),
+      "WEBVTT\n\nNOTE speaker notes\n\nintro\n00:01.500 --> 00:03.250 align:start\nHello there\nfriend\n\n00:04.000 --> 00:05.000\nBye\n"
+    );
+
+    const result = await mcp.call("translate_subtitles", { input_file: "talk.vtt", target_languages: ["es", "xx"] });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.translator, "llm");
+    assert.deepEqual(
+      result.json.translations.map((t: any) => [t.language, t.relativePath ?? t.error]),
+      [
+        ["es", "public/talk.es.srt"],
+        ["xx", "Translator returned 1 translations for 2 texts"],
+      ]
+    );
+    assert.equal(
+      fs.readFileSync(path.join(publicDir, "talk.es.srt"), "utf-8"),
+      "1\n00:00:01,500 --> 00:00:03,250\n[es] Hello there\nfriend\n\n2\n00:00:04,000 --> 00:00:05,000\n[es] Bye\n"
+    );
+    assert.equal(fs.existsSync(path.join(publicDir, "talk.xx.srt")), false);
+
+    const vtt = await mcp.call("translate_subtitles", {
+      input_file: "talk.vtt",
+      target_languages: ["pt-BR"],
+      output_format: "vtt",
+    });
+    assert.equal(vtt.json?.translations[0].relativePath, "public/talk.pt-BR.vtt", vtt.text);
+    assert.match(
+      fs.readFileSync(path.join(publicDir, "talk.pt-BR.vtt"), "utf-8"),
+      /^WEBVTT\n\nintro\n00:00:01\.500 --> 00:00:03\.250 align:start\n\[pt-BR\] Hello there/
+    );
+
+    const invalid = await mcp.call("translate_subtitles", { input_file: "talk.vtt", target_languages: ["../es"] });
+    assert.match(invalid.text, /language code/);
+  });
+
+  it("reports unknown job IDs", async () => {
+    const result = await mcp.call("get_job_status", { job_id: "job-missing" });
+    assert.equal(result.json?.error, "Job not found");
+  });
+});
+
+describe("job journal", () => {
+  let mock: MockServer;
+
+  before(async () => {
+    mock = await startMockServer();
+  });
+
+  after(async () => {
+    await mock?.close();
+  });
+
+  function readJournal(projectDir: string): JobRecord[] {
+    return JSON.parse(fs.readFileSync(path.join(projectDir, ".remotion-media", "jobs.json"), "utf-8"));
+  }
+
+  it("finishes jobs left pending by a previous server at startup", async () => {
+    // A task created by the "previous" server, which stopped before collecting it
+    const created = await fetch(`${mock.url}/api/v1/jobs/createTask`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer test-key" },
+      body: JSON.stringify({ model: "nano-banana-pro", input: { prompt: "Resumed" } }),
+    }).then((r) => r.json());
+    const job = buildJob({
+      tool: "generate_image",
+      provider: "kie",
+      taskId: created.data.taskId,
+      outputName: "resumed",
+      description: "Resumed",
+      params: { prompt: "Resumed", output_name: "resumed" },
+    });
+    const projectDir = makeProjectDir();
+    fs.mkdirSync(path.join(projectDir, ".remotion-media"));
+    fs.writeFileSync(path.join(projectDir, ".remotion-media", "jobs.json"), JSON.stringify([job], null, 2));
+
+    const mcp = await startClient(mockEnv(mock), projectDir);
+    try {
+      const deadline = Date.now() + 20000;
+      while (readJournal(projectDir)[0].status === "pending" && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      const [resumed] = readJournal(projectDir);
+      assert.equal(resumed.status, "completed", JSON.stringify(resumed));
+      assert.equal(resumed.result?.relativePath, "public/resumed.png");
+      assert.ok(fs.existsSync(path.join(projectDir, "public", "resumed.png")));
+      assert.ok(fs.existsSync(path.join(projectDir, "public", "resumed.png.meta.json")));
+    } finally {
+      await mcp.close();
+    }
+  });
+
+  it("keeps a cancelled job pending so it can be collected later", async () => {
+    const mcp = await startClient(mockEnv(mock));
+    try {
+      // Cancel while a status check is in flight (the mock takes 300ms to answer it)
+      const controller = new AbortController();
+      const call = mcp.client.callTool(
+        { name: "generate_image", arguments: { prompt: "Cancelled mock:slow-status", output_name: "cancelled" } },
+        undefined,
+        { signal: controller.signal }
+      );
+      setTimeout(() => controller.abort(), 150);
+      await assert.rejects(call);
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const [job] = readJournal(mcp.projectDir);
+      assert.equal(job.status, "pending", JSON.stringify(job));
+
+      // The task finishes at the provider after all
+      const task = [...mock.tasks.values()].find((t) => t.id === job.taskId)!;
+      task.scenario = "success";
+      const waited = await mcp.call("wait_for_job", { job_id: job.id, timeout_seconds: 30 });
+      assert.equal(waited.json?.status, "completed", waited.text);
+      assert.ok(fs.existsSync(path.join(mcp.projectDir, "public", "cancelled.png")));
+    } finally {
+      await mcp.close();
+    }
+  });
+
+  it("keeps a job pending while the provider can't be reached", async () => {
+    const unreachable = await startMockServer();
+    const mcp = await startClient(mockEnv(unreachable, { HTTP_MAX_RETRIES: "0" }));
+    try {
+      const submitted = await mcp.call("generate_image", { prompt: "Offline", output_name: "offline", wait: false });
+      assert.equal(submitted.json?.status, "pending", submitted.text);
+      await unreachable.close();
+
+      const status = await mcp.call("get_job_status", { job_id: submitted.json.jobId });
+      assert.equal(status.json?.status, "pending", status.text);
+      assert.equal(readJournal(mcp.projectDir)[0].status, "pending");
+    } finally {
+      await mcp.close();
+    }
+  });
+});
+
+describe("asset library tools", () => {
+  let mock: MockServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    mock = await startMockServer();
+    mcp = await startClient(mockEnv(mock));
+  });
+
+  after(async () => {
+    await mcp?.close();
+    await mock?.close();
+  });
+
+  it("backs up, lists and fetches an asset", async () => {
+    fs.mkdirSync(path.join(mcp.projectDir, "public"), { recursive: true });
+    fs.writeFileSync(path.join(mcp.projectDir, "public", "logo.png"), Buffer.from("png-bytes"));
+
+    const backup = await mcp.call("backup_asset", { file_path: "public/logo.png", description: "Logo" });
+    assert.equal(backup.json?.success, true, backup.text);
+    assert.match(backup.json.aid, /^A\d+$/);
+
+    const listed = await mcp.call("list_assets", { file_type: "image" });
+    assert.equal(listed.json?.success, true, listed.text);
+    assert.ok(listed.json.assets.some((a: any) => a.aid === backup.json.aid && a.hasAttachment));
+
+    const fetched = await mcp.call("get_asset", { aid: backup.json.aid, target_dir: "assets" });
+    assert.equal(fetched.json?.success, true, fetched.text);
+    assert.equal(fs.readFileSync(fetched.json.path, "utf-8"), "png-bytes");
+  });
+
+  it("regenerates an Airtable asset by AID", async () => {
+    fs.mkdirSync(path.join(mcp.projectDir, "public"), { recursive: true });
+    fs.writeFileSync(path.join(mcp.projectDir, "public", "poster.png"), Buffer.from("png-bytes"));
+    const backup = await mcp.call("backup_asset", { file_path: "public/poster.png", description: "Retro movie poster" });
+    assert.equal(backup.json?.success, true, backup.text);
+
+    const result = await mcp.call("regenerate_asset", { source: backup.json.aid, prompt_delta: "in blue tones" });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.relativePath, "public/poster-v2.png");
+    assert.equal(result.json.parent.aid, backup.json.aid);
+    assert.equal(mock.tasks.get(result.json.taskId)!.body.input.prompt, "Retro movie poster, in blue tones");
+  });
+
+  it("accepts AIDs as image inputs", async () => {
+    fs.mkdirSync(path.join(mcp.projectDir, "out"), { recursive: true });
+    fs.writeFileSync(path.join(mcp.projectDir, "out", "frame.png"), Buffer.from("png-bytes"));
+    const backup = await mcp.call("backup_asset", { file_path: "out/frame.png", description: "Frame" });
+
+    const result = await mcp.call("generate_video_from_image", {
+      prompt: "Animate",
+      image_urls: [backup.json.aid],
+      output_name: "from-aid",
+    });
+    assert.equal(result.json?.success, true, result.text);
+    const record = mock.records.find((r) => r.fields.AID === backup.json.aid)!;
+    assert.equal(mock.tasks.get(result.json.taskId)!.body.imageUrls[0], record.fields.File[0].url);
+  });
+
+  it("reports a missing local file", async () => {
+    const result = await mcp.call("backup_asset", { file_path: "nope.png", description: "Missing" });
+    assert.equal(result.json?.error, "File not found");
+  });
+
+  it("reports Airtable record failures", async () => {
+    fs.mkdirSync(path.join(mcp.projectDir, "out"), { recursive: true });
+    fs.writeFileSync(path.join(mcp.projectDir, "out", "render.mp4"), Buffer.from("mp4"));
+
+    const result = await mcp.call("backup_asset", { file_path: "out/render.mp4", description: "mock:fail" });
+    assert.equal(result.json?.error, "Failed to create Airtable record");
+  });
+
+  it("reports unknown and malformed AIDs", async () => {
+    const missing = await mcp.call("get_asset", { aid: "A999" });
+    assert.equal(missing.json?.error, "Asset not found");
+
+    const invalid = await mcp.call("get_asset", { aid: "not-an-aid" });
+    assert.match(invalid.text, /Invalid AID format/);
+  });
+});
+
+describe("custom media providers", () => {
+  let mock: MockServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    // A stub image provider whose results are files on the mock server
+    mock = await startMockServer();
+    const projectDir = makeProjectDir();
+    fs.writeFileSync(
+      path.join(projectDir, "stub-provider.mjs"),
+      `export const providers = {
+  stub: ({ baseUrl, apiKey }) => ({
+    name: "stub",
+    async createTask({ operation, params }) {
+      return { taskId: \`stub-\${operation}-\${apiKey}\`, model: "stub-model" };
+    },
+    async poll(operation, taskId) {
+      return { success: true, data: { url: \`\${baseUrl}/files/\${taskId}.png\` } };
+    },
+    extractResultUrls(operation, data) {
+      return { urls: [data.url] };
+    },
+  }),
+};
+`
+    );
+    mcp = await startClient(
+      mockEnv(mock, {
+        MEDIA_PROVIDER_MODULES: "./stub-provider.mjs",
+        MEDIA_PROVIDER_IMAGE: "stub",
+        MEDIA_PROVIDER_IMAGE_BASE_URL: mock.url,
+        MEDIA_PROVIDER_IMAGE_API_KEY: "stub-key",
+      }),
+      projectDir
+    );
+  });
+
+  after(async () => {
+    await mcp?.close();
+    await mock?.close();
+  });
+
+  it("routes one media type to a provider loaded from a module", async () => {
+    const image = await mcp.call("generate_image", { prompt: "Stubbed", output_name: "stubbed" });
+    assert.equal(image.json?.success, true, image.text);
+    assert.equal(image.json.taskId, "stub-image-stub-key");
+    assert.ok(!mock.requests.some((r) => r.path === "/api/v1/jobs/createTask"));
+
+    const info = await mcp.call("get_asset_info", { file_path: "public/stubbed.png" });
+    assert.deepEqual([info.json?.provider, info.json?.model], ["stub", "stub-model"], info.text);
+
+    // Other media types still go to kie.ai
+    const effect = await mcp.call("generate_sound_effect", { prompt: "A whoosh", output_name: "whoosh" });
+    assert.equal(effect.json?.success, true, effect.text);
+    assert.ok(mock.requests.some((r) => r.path === "/api/v1/jobs/createTask"));
+  });
+});
+
+describe("without optional configuration", () => {
+  let mock: MockServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    mock = await startMockServer();
+    mcp = await startClient({ KIE_API_BASE_URL: mock.url, MEDIA_POLL_INTERVAL_MS: "5" });
+  });
+
+  after(async () => {
+    await mcp?.close();
+    await mock?.close();
+  });
+
+  it("requires KIE_API_KEY for generation", async () => {
+    const result = await mcp.call("generate_image", { prompt: "x", output_name: "x" });
+    assert.equal(result.text, "Error generating image: KIE_API_KEY environment variable is required");
+  });
+
+  it("reports a missing translator", async () => {
+    const result = await mcp.call("translate_subtitles", { input_file: "voice.srt", target_languages: ["es"] });
+    assert.equal(result.json?.error, "Translator not configured", result.text);
+  });
+
+  it("lists the preset voices without an ElevenLabs key", async () => {
+    const result = await mcp.call("list_voices", { accent: "british", search: "narration" });
+    assert.equal(result.json?.source, "presets", result.text);
+    assert.deepEqual(result.json.voices.map((v: any) => v.name), ["George", "Lily"]);
+  });
+
+  it("reports Airtable as not configured", async () => {
+    for (const [tool, args] of [
+      ["list_assets", {}],
+      ["backup_asset", { file_path: "x.png", description: "x" }],
+      ["get_asset", { aid: "A1" }],
+    ] as const) {
+      const result = await mcp.call(tool, args);
+      assert.equal(result.json?.error, "Airtable not configured", `${tool}: ${result.text}`);
+    }
+  });
+});
+
+describe("speech with local ffmpeg and whisper", () => {
+  let mock: MockServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    // Fake ffprobe reporting 2.5s of audio, a fake ffmpeg writing an MP3 header to its output,
+    // and a fake whisper-cli for alignment
+    mock = await startMockServer();
+    const projectDir = makeProjectDir();
+    const binDir = path.join(projectDir, "bin");
+    fs.mkdirSync(binDir);
+    fs.writeFileSync(
+      path.join(binDir, "ffprobe"),
+      `#!/bin/sh\ncat <<'JSON'\n${JSON.stringify({ format: { duration: "2.5" }, streams: [{ codec_type: "audio" }] })}\nJSON\n`,
+      { mode: 0o755 }
+    );
+    fs.writeFileSync(path.join(binDir, "ffmpeg"), `#!/bin/sh\nfor last; do :; done\nprintf 'ID3\\004\\000' > "$last"\n`, {
+      mode: 0o755,
+    });
+    writeFakeWhisperCli(binDir);
+    fs.mkdirSync(path.join(projectDir, "models"));
+    fs.writeFileSync(path.join(projectDir, "models", "ggml-base.bin"), "model");
+
+    mcp = await startClient(
+      mockEnv(mock, {
+        FFPROBE_PATH: path.join(binDir, "ffprobe"),
+        FFMPEG_PATH: path.join(binDir, "ffmpeg"),
+        PATH: `${binDir}:${process.env.PATH}`,
+      }),
+      projectDir
+    );
+  });
+
+  after(async () => {
+    await mcp?.close();
+    await mock?.close();
+  });
+
+  it("splits a long script, joins the chunks and writes a manifest", async () => {
+    const paragraphs = ["Alpha", "Bravo", "Charlie"].map((word) => `${word} sentence here. `.repeat(150).trim());
+    const result = await mcp.call("generate_speech", {
+      text: paragraphs.join("\n\n"),
+      output_name: "narration",
+      voice: "Brian",
+      timestamps: true,
+    });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.relativePath, "public/narration.mp3");
+    assert.equal(result.json.chunkCount, 3);
+
+    // Every chunk went out with the same voice
+    const chunkRequests = mock.requests.filter((r) => r.body?.input?.text?.includes("sentence here."));
+    assert.equal(chunkRequests.length, 3);
+    assert.ok(chunkRequests.every((r) => r.body.input.voice === "Brian" && r.body.input.text.length <= 5000));
+
+    const manifest = JSON.parse(fs.readFileSync(path.join(path.dirname(result.json.path), "narration.manifest.json"), "utf-8"));
+    assert.equal(manifest.audio, "narration.mp3");
+    assert.equal(manifest.durationMs, 8000);
+    assert.deepEqual(
+      manifest.chunks.map((c: any) => [c.index, c.startMs, c.endMs, c.text.split(" ")[0]]),
+      [
+        [0, 0, 2500, "Alpha"],
+        [1, 2750, 5250, "Bravo"],
+        [2, 5500, 8000, "Charlie"],
+      ]
+    );
+
+    const info = await mcp.call("get_asset_info", { file_path: "narration.mp3" });
+    assert.equal(info.json?.extras?.chunkCount, 3, info.text);
+
+    // Each chunk's task was journaled, and is done once the joined file is saved
+    const journal = JSON.parse(fs.readFileSync(path.join(mcp.projectDir, ".remotion-media", "jobs.json"), "utf-8"));
+    const chunkJobs = journal.filter((j: any) => /^narration-chunk-\d+$/.test(j.outputName));
+    assert.deepEqual(
+      chunkJobs.map((j: any) => [j.status, j.result?.assembledInto]).sort(),
+      Array(3).fill(["completed", "public/narration.mp3"])
+    );
+
+    // Each chunk's alignment is offset to where the chunk starts
+    assert.equal(result.json.timingsPath, "public/narration.words.json");
+    const words = JSON.parse(fs.readFileSync(path.join(mcp.projectDir, result.json.timingsPath), "utf-8")).words;
+    assert.deepEqual(words.find((w: any) => w.text === " Bravo"), {
+      text: " Bravo",
+      startMs: 2750,
+      endMs: 3000,
+      timestampMs: null,
+      confidence: null,
+    });
+  });
+
+  it("regenerates long-form narration in chunks", async () => {
+    const result = await mcp.call("regenerate_asset", { source: "public/narration.mp3", overrides: { voice: "Lily" } });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.relativePath, "public/narration-v2.mp3");
+    assert.equal(result.json.chunkCount, 3);
+    assert.equal(result.json.parent.path, "public/narration.mp3");
+
+    const chunkRequests = mock.requests.filter((r) => r.body?.input?.text?.includes("sentence here."));
+    assert.equal(chunkRequests.filter((r) => r.body.input.voice === "Lily").length, 3);
+  });
+
+  it("aligns speech with local Whisper when the provider has no timestamps", async () => {
+    const result = await mcp.call("generate_speech", {
+      text: "Hello world mock:no-alignment",
+      output_name: "aligned",
+      timestamps: true,
+    });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.timingsSource, "whisper-cpp");
+
+    const timings = JSON.parse(fs.readFileSync(path.join(mcp.projectDir, "public", "aligned.words.json"), "utf-8"));
+    assert.equal(timings.audio, "aligned.mp3");
+    assert.deepEqual(timings.words, [
+      { text: "Hello", startMs: 0, endMs: 400, timestampMs: 120, confidence: 0.8 },
+      { text: " world", startMs: 400, endMs: 900, timestampMs: null, confidence: 0.6 },
+    ]);
+    assert.equal(timings.characters, undefined);
+  });
+
+  it("generates a dialogue with per-line files and timings", async () => {
+    const result = await mcp.call("generate_dialogue", {
+      lines: [
+        { speaker: "Host", text: "Welcome to the show." },
+        { speaker: "Guest", text: "Thanks for having me." },
+        { speaker: "Host", text: "Let's begin." },
+      ],
+      speakers: { Host: { voice: "Brian" }, Guest: { voice: "CloneVoice0000000001", speed: 1.1 } },
+      output_name: "scene",
+      gap_ms: 500,
+    });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.relativePath, "public/scene.mp3");
+    assert.deepEqual(
+      result.json.lines.map((l: any) => [l.speaker, l.file, l.startMs, l.endMs]),
+      [
+        ["Host", "public/scene-line-01.mp3", 0, 2500],
+        ["Guest", "public/scene-line-02.mp3", 3000, 5500],
+        ["Host", "public/scene-line-03.mp3", 6000, 8500],
+      ]
+    );
+
+    const guestRequest = mock.requests.find((r) => r.body?.input?.text === "Thanks for having me.");
+    assert.equal(guestRequest?.body.input.voice, "CloneVoice0000000001");
+    assert.equal(guestRequest?.body.input.speed, 1.1);
+
+    const timing = JSON.parse(fs.readFileSync(path.join(mcp.projectDir, "public", "scene.timing.json"), "utf-8"));
+    assert.equal(timing.durationMs, 8500);
+    assert.deepEqual(timing.speakers.Host, { voice: "Brian", voiceId: "nPczCjzI2devNBz1zQrb" });
+    assert.equal(timing.lines[1].text, "Thanks for having me.");
+
+    // Lines are ordinary speech assets
+    const line = await mcp.call("get_asset_info", { file_path: "scene-line-02.mp3" });
+    assert.equal(line.json?.tool, "generate_speech", line.text);
+    assert.equal(line.json.params.text, "Thanks for having me.");
+    assert.deepEqual(line.json.extras.dialogue, { audio: "scene.mp3", index: 1, speaker: "Guest" });
+  });
+
+  it("keeps the lines of a failed dialogue as pending jobs", async () => {
+    const result = await mcp.call("generate_dialogue", {
+      lines: [
+        { speaker: "Host", text: "This line is fine." },
+        { speaker: "Host", text: "This one is not mock:fail" },
+      ],
+      speakers: { Host: { voice: "Brian" } },
+      output_name: "broken",
+    });
+    assert.match(result.text, /^Error generating dialogue: Line 2 \(Host\) failed/);
+
+    const listed = await mcp.call("list_jobs", {});
+    const byName = Object.fromEntries(listed.json.jobs.map((j: any) => [j.outputName, j]));
+    assert.equal(byName["broken-line-02"]?.status, "failed", listed.text);
+    assert.equal(byName["broken-line-01"]?.status, "pending");
+
+    // The line that was paid for can still be collected
+    const waited = await mcp.call("wait_for_job", { job_id: byName["broken-line-01"].jobId, timeout_seconds: 30 });
+    assert.equal(waited.json?.status, "completed", waited.text);
+    assert.ok(fs.existsSync(path.join(mcp.projectDir, "public", "broken-line-01.mp3")));
+  });
+
+  it("rejects dialogue lines without a speaker voice", async () => {
+    const result = await mcp.call("generate_dialogue", {
+      lines: [{ speaker: "Narrator", text: "Hello" }],
+      speakers: { Host: { voice: "Brian" } },
+      output_name: "bad-scene",
+    });
+    assert.match(result.text, /^Error: Invalid dialogue: lines\.0\.speaker: No voice for speaker "Narrator"/);
+  });
+
+  it("requires wait for long-form speech", async () => {
+    const result = await mcp.call("generate_speech", { text: "x ".repeat(3000), output_name: "async", wait: false });
+    assert.match(result.text, /^Error: Long-form speech/);
+  });
+});
+
+describe("generate_subtitles", () => {
+  let projectDir: string;
+  let mcp: TestClient;
+
+  before(async () => {
+    // Fake whisper-cli, with a model in place so nothing is downloaded
+    projectDir = makeProjectDir();
+    const binDir = path.join(projectDir, "bin");
+    fs.mkdirSync(binDir);
+    writeFakeWhisperCli(binDir);
+    fs.mkdirSync(path.join(projectDir, "models"));
+    fs.writeFileSync(path.join(projectDir, "models", "ggml-base.bin"), "model");
+    fs.mkdirSync(path.join(projectDir, "public"));
+    fs.writeFileSync(path.join(projectDir, "public", "voice.mp3"), "audio");
+
+    mcp = await startClient({ PATH: `${binDir}:${process.env.PATH}` }, projectDir);
+  });
+
+  after(async () => {
+    await mcp?.close();
+  });
+
+  it("transcribes a file in public/", async () => {
+    const result = await mcp.call("generate_subtitles", { input_file: "voice.mp3" });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.relativePath, "public/voice.srt");
+    assert.match(fs.readFileSync(result.json.path, "utf-8"), /Hello/);
+  });
+
+  it("does not overwrite existing subtitles by default", async () => {
+    const result = await mcp.call("generate_subtitles", { input_file: "voice.mp3" });
+    assert.equal(result.json?.relativePath, "public/voice-v2.srt", result.text);
+
+    const refused = await mcp.call("generate_subtitles", { input_file: "voice.mp3", on_conflict: "error" });
+    assert.equal(refused.json?.error, "File exists");
+  });
+
+  it("writes vtt, txt and word-level Caption JSON alongside srt", async () => {
+    const result = await mcp.call("generate_subtitles", {
+      input_file: "voice.mp3",
+      output_name: "captions",
+      output_formats: ["srt", "vtt", "json", "txt"],
+    });
+    assert.equal(result.json?.success, true, result.text);
+    assert.equal(result.json.relativePath, "public/captions.srt");
+    assert.deepEqual(
+      result.json.files.map((f: any) => f.relativePath),
+      ["public/captions.srt", "public/captions.vtt", "public/captions.json", "public/captions.txt"]
+    );
+    assert.equal(result.json.wordCount, 2);
+
+    const publicDir = path.join(projectDir, "public");
+    assert.match(fs.readFileSync(path.join(publicDir, "captions.vtt"), "utf-8"), /^WEBVTT/);
+    assert.equal(fs.readFileSync(path.join(publicDir, "captions.txt"), "utf-8"), "Hello\n");
+    assert.deepEqual(JSON.parse(fs.readFileSync(path.join(publicDir, "captions.json"), "utf-8")), [
+      { text: "Hello", startMs: 0, endMs: 400, timestampMs: 120, confidence: 0.8 },
+      { text: " world", startMs: 400, endMs: 900, timestampMs: null, confidence: 0.6 },
+    ]);
+    assert.ok(fs.existsSync(path.join(publicDir, "captions.json.meta.json")));
+
+    const wordsOnly = await mcp.call("generate_subtitles", { input_file: "voice.mp3", output_formats: ["json"] });
+    assert.equal(wordsOnly.json?.relativePath, "public/voice.json", wordsOnly.text);
+    assert.equal(wordsOnly.json.files, undefined);
+  });
+
+  it("lists available files when the input is missing", async () => {
+    const result = await mcp.call("generate_subtitles", { input_file: "missing.mp3" });
+    assert.equal(result.json?.error, "File not found");
+    assert.deepEqual(result.json.available_files, ["voice.mp3"]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { createCommandTranslator, getTranslator } from "../src/translators.js";
+import { makeProjectDir } from "./helpers.js";
+
+describe("translators", () => {
+  let dir: string;
+  const saved = { ...process.env };
+
+  before(() => {
+    dir = makeProjectDir();
+    for (const key of Object.keys(process.env)) {
+      if (/^(TRANSLATION_|TRANSLATOR)/.test(key)) delete process.env[key];
+    }
+  });
+
+  after(() => {
+    process.env = saved;
+  });
+
+  // Fake local model: upper-cases every text, replying inside a Markdown code fence
+  function writeScript(): string {
+    const script = path.join(dir, "translate.mjs");
+    fs.writeFileSync(
+      script,
+      `let input = "";
+process.stdin.on("data", (c) => (input += c));
+process.stdin.on("end", () => {
+  const { target_language, texts } = JSON.parse(input);
+  console.log("\`\`\`json\\n" + JSON.stringify(texts.map((t) => target_language + ":" + t.toUpperCase())) + "\\n\`\`\`");
+});
+`
+    );
+    return script;
+  }
+
+  it("runs a local command with the texts on stdin", async () => {
+    const translator = createCommandTranslator({ command: `"${process.execPath}" "${writeScript()}"` });
+    assert.deepEqual(await translator.translate({ texts: ["hi", "two\nlines"], targetLanguage: "de" }), [
+      "de:HI",
+      "de:TWO\nLINES",
+    ]);
+
+    const failing = createCommandTranslator({ command: "echo broken >&2; exit 3" });
+    await assert.rejects(failing.translate({ texts: ["hi"], targetLanguage: "de" }), /Translation command failed: broken/);
+  });
+
+  it("picks the translator from the environment", () => {
+    assert.equal(getTranslator(), null);
+
+    process.env.TRANSLATION_BASE_URL = "http://localhost:11434/v1";
+    process.env.TRANSLATION_MODEL = "llama3.1";
+    assert.deepEqual([getTranslator()?.name, getTranslator()?.model], ["llm", "llama3.1"]);
+
+    process.env.TRANSLATION_COMMAND = "translate";
+    assert.equal(getTranslator()?.name, "command");
+
+    process.env.TRANSLATOR = "deepl";
+    assert.throws(() => getTranslator(), /Unknown translator "deepl". Available: llm, command/);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import { ensureWhisperModel, parseWhisperCppJson, parseOpenAiWhisperJson } from "../src/whisper.js";
+import { FAKE_WHISPER_JSON, makeProjectDir } from "./helpers.js";
+
+describe("Whisper word output", () => {
+  it("reads whisper.cpp full JSON, one word per segment", () => {
+    assert.deepEqual(parseWhisperCppJson(FAKE_WHISPER_JSON), [
+      { text: "Hello", startMs: 0, endMs: 400, timestampMs: 120, confidence: 0.8 },
+      { text: " world", startMs: 400, endMs: 900, timestampMs: null, confidence: 0.6 },
+    ]);
+  });
+
+  it("reads openai-whisper word timestamps", () => {
+    const json = {
+      segments: [
+        { words: [{ word: " Hello", start: 0, end: 0.42, probability: 0.9 }] },
+        { words: [{ word: " again", start: 1.5, end: 1.9 }] },
+      ],
+    };
+    assert.deepEqual(parseOpenAiWhisperJson(json), [
+      { text: "Hello", startMs: 0, endMs: 420, timestampMs: null, confidence: 0.9 },
+      { text: " again", startMs: 1500, endMs: 1900, timestampMs: null, confidence: null },
+    ]);
+  });
+});
+
+describe("ensureWhisperModel", () => {
+  it("downloads a model once for concurrent callers", async () => {
+    let downloads = 0;
+    const server = http.createServer((_req, res) => {
+      downloads++;
+      setTimeout(() => res.end("model"), 50);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const cwd = process.cwd();
+    const saved = process.env.WHISPER_MODEL_BASE_URL;
+    process.env.WHISPER_MODEL_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.chdir(makeProjectDir());
+
+    try {
+      const paths = await Promise.all([ensureWhisperModel("concurrent-test"), ensureWhisperModel("concurrent-test")]);
+      const expected = path.join(process.cwd(), "models", "ggml-concurrent-test.bin");
+      assert.deepEqual(paths, [expected, expected]);
+      assert.equal(fs.readFileSync(expected, "utf-8"), "model");
+      assert.equal(downloads, 1);
+    } finally {
+      process.chdir(cwd);
+      if (saved === undefined) delete process.env.WHISPER_MODEL_BASE_URL;
+      else process.env.WHISPER_MODEL_BASE_URL = saved;
+      server.close();
+    }
+  });
+});